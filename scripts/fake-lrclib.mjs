@@ -0,0 +1,139 @@
+// scripts/fake-lrclib.mjs
+
+// LRCLIB falso en memoria para desarrollo y pruebas: /get, /get/:id, /search,
+// /request-challenge y /publish con una prueba de trabajo fácil.
+// Uso: npm run fake-lrclib, y LRCLIB_BASE_URL=http://localhost:4010/api en la app.
+// Para probar reintentos y circuit breaker, FAKE_LRCLIB_FAILURE (o POST /__failure?mode=…)
+// hace fallar todas las peticiones de la API: 503, 429 (Retry-After: 10), slow (15 s) u off.
+
+import { createHash, randomBytes } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const PORT = parseInt(process.env.PORT ?? '4010', 10);
+// Muy por encima del de LRCLIB para que el reto se resuelva al instante
+const TARGET = process.env.FAKE_LRCLIB_TARGET ?? '00ff' + 'f'.repeat(60);
+
+const records = [];
+const challenges = new Set();
+let nextId = 1;
+let failure = process.env.FAKE_LRCLIB_FAILURE ?? 'off';
+
+const norm = (s) => (s ?? '').toLowerCase().trim();
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function notFound(res) {
+  send(res, 404, { code: 404, name: 'TrackNotFound', message: 'Failed to find specified track' });
+}
+
+function readJson(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => (data += chunk));
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(data || '{}'));
+      } catch (err) {
+        reject(err);
+      }
+    });
+  });
+}
+
+function validToken(token) {
+  const [prefix, nonce] = (token ?? '').split(':');
+  if (!prefix || !nonce || !challenges.delete(prefix)) return false;
+  const hash = createHash('sha256').update(`${prefix}${nonce}`).digest();
+  return Buffer.compare(hash, Buffer.from(TARGET, 'hex')) <= 0;
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  const q = url.searchParams;
+  console.log(req.method, url.pathname + url.search);
+
+  if (req.method === 'POST' && url.pathname === '/__failure') {
+    failure = q.get('mode') ?? 'off';
+    return send(res, 200, { failure });
+  }
+  if (failure === '503') return send(res, 503, { message: 'Service Unavailable' });
+  if (failure === '429') {
+    res.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After': '10' });
+    return res.end(JSON.stringify({ message: 'Too Many Requests' }));
+  }
+  if (failure === 'slow') await new Promise((resolve) => setTimeout(resolve, 15_000));
+
+  if (req.method === 'GET' && url.pathname === '/api/get') {
+    const duration = q.get('duration') ? Number(q.get('duration')) : null;
+    const found = records.find(
+      (r) =>
+        norm(r.trackName) === norm(q.get('track_name')) &&
+        norm(r.artistName) === norm(q.get('artist_name')) &&
+        (!q.get('album_name') || norm(r.albumName) === norm(q.get('album_name'))) &&
+        (duration === null || Math.abs(r.duration - duration) <= 2)
+    );
+    return found ? send(res, 200, found) : notFound(res);
+  }
+
+  const byId = /^\/api\/get\/(\d+)$/.exec(url.pathname);
+  if (req.method === 'GET' && byId) {
+    const found = records.find((r) => r.id === Number(byId[1]));
+    return found ? send(res, 200, found) : notFound(res);
+  }
+
+  if (req.method === 'GET' && url.pathname === '/api/search') {
+    // Como en LRCLIB, q busca todas sus palabras en título, artista, álbum y letra
+    const words = norm(q.get('q')).split(/\s+/).filter(Boolean);
+    return send(
+      res,
+      200,
+      records.filter((r) => {
+        if (!words.length) {
+          return norm(r.trackName).includes(norm(q.get('track_name'))) && norm(r.artistName).includes(norm(q.get('artist_name')));
+        }
+        const haystack = norm([r.trackName, r.artistName, r.albumName, r.plainLyrics].join(' '));
+        return words.every((w) => haystack.includes(w));
+      })
+    );
+  }
+
+  if (req.method === 'POST' && url.pathname === '/api/request-challenge') {
+    const prefix = randomBytes(16).toString('hex');
+    challenges.add(prefix);
+    return send(res, 200, { prefix, target: TARGET });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/api/publish') {
+    if (!validToken(req.headers['x-publish-token'])) {
+      return send(res, 400, { code: 400, name: 'IncorrectPublishTokenError', message: 'The provided publish token is incorrect' });
+    }
+    let body;
+    try {
+      body = await readJson(req);
+    } catch {
+      return send(res, 400, { code: 400, name: 'BadRequest', message: 'Invalid JSON body' });
+    }
+    const { trackName, artistName, albumName, duration, plainLyrics, syncedLyrics } = body;
+    if (!trackName || !artistName || !albumName || typeof duration !== 'number') {
+      return send(res, 400, { code: 400, name: 'BadRequest', message: 'Missing track signature fields' });
+    }
+    records.push({
+      id: nextId++,
+      trackName,
+      artistName,
+      albumName,
+      duration,
+      instrumental: !plainLyrics && !syncedLyrics,
+      plainLyrics: plainLyrics || null,
+      syncedLyrics: syncedLyrics || null,
+    });
+    return send(res, 201);
+  }
+
+  notFound(res);
+});
+
+server.listen(PORT, () => console.log(`Fake LRCLIB listening on http://localhost:${PORT}/api`));
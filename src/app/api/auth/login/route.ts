@@ -0,0 +1,20 @@
+// src/app/api/auth/login/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildAuthorizeUrl, generateCodeVerifier, generateState } from '@/lib/auth/oauth';
+import { PKCE_COOKIE, cookieOptions, seal, type PkceState } from '@/lib/auth/session';
+import { errorResponse } from '@/lib/api/errors';
+
+// Inicia el login: guarda verifier + state y redirige a Spotify
+export async function GET(request: NextRequest) {
+  try {
+    const pkce: PkceState = { verifier: generateCodeVerifier(), state: generateState() };
+    const response = NextResponse.redirect(
+      buildAuthorizeUrl(request.nextUrl.origin, pkce.verifier, pkce.state)
+    );
+    response.cookies.set(PKCE_COOKIE, seal(pkce), { ...cookieOptions, maxAge: 10 * 60 });
+    return response;
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,9 @@
+// src/app/api/auth/logout/route.ts
+
+import { NextResponse } from 'next/server';
+import { clearSession } from '@/lib/auth/session';
+
+export async function POST() {
+  await clearSession();
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,18 @@
+// src/app/api/auth/session/route.ts
+
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api/errors';
+import type { SessionResponse } from '@/lib/api/types';
+import { getSession } from '@/lib/auth/session';
+
+// Estado de la sesión para el cliente (nunca expone los tokens)
+export async function GET() {
+  try {
+    const session = await getSession();
+    return NextResponse.json<SessionResponse>(
+      session ? { authenticated: true, expiresAt: session.expiresAt } : { authenticated: false }
+    );
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
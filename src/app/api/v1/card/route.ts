@@ -0,0 +1,70 @@
+// src/app/api/v1/card/route.ts
+
+import { NextRequest } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api/errors';
+import type { SearchResult } from '@/lib/api/types';
+import { checkCardLines, parseCardRequest } from '@/lib/api/validation';
+import { lyricsCredit } from '@/lib/card/layout';
+import { renderCardImage } from '@/lib/card/render';
+import { getLyrics } from '@/lib/lyrics';
+import { buildCardLines, buildCardSecondaryLines, lyricsDisplayLines } from '@/lib/selection';
+import { optionalSpotifyClient, toSearchResult } from '@/lib/spotify';
+import { getTranslation } from '@/lib/translation';
+
+// --- Share card as PNG ---
+// Misma tarjeta que el modal, sin navegador: pensada para bots, scripts e imágenes Open Graph.
+export async function GET(request: NextRequest) {
+  try {
+    const card = parseCardRequest(request.nextUrl.searchParams);
+
+    let song: SearchResult;
+    if (card.trackId) {
+      const spotifyApi = await optionalSpotifyClient(request);
+      // Sin credenciales de aplicación ni sesión no hay a quién preguntar: es un fallo del servidor
+      if (!spotifyApi) throw new ApiError('upstream_unavailable', 'Spotify is not configured on this server.', 'spotify');
+      song = toSearchResult((await spotifyApi.getTrack(card.trackId)).body);
+    } else {
+      song = {
+        id: 'card',
+        title: card.trackName!,
+        artist: card.artistName!,
+        album: card.albumName ?? '',
+        duration: card.duration ?? 0,
+        thumbnailUrl: card.coverUrl,
+        coverUrl: card.coverUrl,
+      };
+    }
+
+    let lines = card.text;
+    let secondaryLines: string[] | undefined;
+    let credit = card.credit ?? '';
+    if (!lines) {
+      const lyricsRequest = {
+        trackName: song.title,
+        artistName: song.artist,
+        albumName: song.album || undefined,
+        duration: song.duration > 0 ? song.duration : undefined,
+        refresh: false,
+      };
+      const { body } = await getLyrics(lyricsRequest);
+      const all = lyricsDisplayLines(body);
+      if (!all) throw new ApiError('not_found', body.message ?? 'No lyrics found for this song.');
+      const indices = checkCardLines(card.lines, all.length);
+      lines = buildCardLines(indices, all);
+      if (card.translation) {
+        // Sin traducción disponible la tarjeta sale igual, solo con la letra
+        const translation = await getTranslation({ ...lyricsRequest, target: card.translation }).catch(() => null);
+        if (translation) secondaryLines = buildCardSecondaryLines(indices, translation.lines);
+      }
+      credit ||= lyricsCredit(body.attribution, body.source, !!body.isSynced && !!body.synced?.lines.length);
+    }
+
+    const image = await renderCardImage(
+      { song, lines, secondaryLines, style: card.style, credit, size: card.size, coverSrc: song.coverUrl ?? song.thumbnailUrl }
+    );
+    image.headers.set('Cache-Control', 'public, max-age=86400');
+    return image;
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
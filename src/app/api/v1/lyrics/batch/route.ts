@@ -0,0 +1,52 @@
+// src/app/api/v1/lyrics/batch/route.ts
+
+import { NextRequest } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api/errors';
+import type { BatchEvent } from '@/lib/api/types';
+import { parseBatchRequest } from '@/lib/api/validation';
+import { runBatch, uploadedTrack } from '@/lib/batch';
+import { getAlbumCollection, getPlaylistCollection, optionalSpotifyClient, type TrackCollection } from '@/lib/spotify';
+import { MAX_BATCH_TRACKS } from '@/lib/trackList';
+
+// Un lote de 500 pistas al ritmo permitido tarda un par de minutos
+export const maxDuration = 300;
+
+// --- Batch lyrics lookup ---
+// Los errores de la petición (lista inválida, playlist inaccesible) son respuestas normales;
+// a partir de ahí el progreso se envía como NDJSON: 'start', un 'track' por pista y 'done'.
+export async function POST(request: NextRequest) {
+  try {
+    const batch = parseBatchRequest(await request.text(), request.headers.get('Content-Type'));
+    let collection: TrackCollection | null = null;
+    if (batch.kind !== 'tracks') {
+      const spotifyApi = await optionalSpotifyClient(request);
+      if (!spotifyApi) throw new ApiError('unauthorized', 'Log in to Spotify to load playlists and albums.');
+      collection =
+        batch.kind === 'playlist'
+          ? await getPlaylistCollection(spotifyApi, batch.id, MAX_BATCH_TRACKS)
+          : await getAlbumCollection(spotifyApi, batch.id, MAX_BATCH_TRACKS);
+    }
+    const batchId = Date.now();
+    const tracks = collection?.tracks ?? (batch.kind === 'tracks' ? batch.tracks.map((t, i) => uploadedTrack(t, i, batchId)) : []);
+
+    const encoder = new TextEncoder();
+    const abort = new AbortController();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(out) {
+        const emit = (event: BatchEvent) => out.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        emit({ type: 'start', name: collection?.name ?? null, total: tracks.length, truncated: !!collection?.truncated });
+        await runBatch(tracks, emit, abort.signal);
+        if (!abort.signal.aborted) out.close();
+      },
+      // El cliente cerró la conexión: no seguir consultando
+      cancel() {
+        abort.abort();
+      },
+    });
+    return new Response(stream, {
+      headers: { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store' },
+    });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
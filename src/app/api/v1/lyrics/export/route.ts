@@ -0,0 +1,43 @@
+// src/app/api/v1/lyrics/export/route.ts
+
+import { NextRequest } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api/errors';
+import { parseLyricsExportRequest } from '@/lib/api/validation';
+import { getLyrics } from '@/lib/lyrics';
+import { exportLyrics } from '@/lib/lyricsExport';
+
+// --- Lyrics download (TXT, LRC, SRT, WebVTT, JSON) ---
+// Misma búsqueda (y caché) que /lyrics; el archivo se descarga con nombre "Artista - Título.ext".
+export async function GET(request: NextRequest) {
+  try {
+    const { format, offset, ...lyricsRequest } = parseLyricsExportRequest(request.nextUrl.searchParams);
+    const { body } = await getLyrics(lyricsRequest);
+    if (!body.lyrics) throw new ApiError('not_found', body.message ?? 'No lyrics found.');
+
+    const file = exportLyrics(
+      {
+        title: lyricsRequest.trackName,
+        artist: lyricsRequest.artistName,
+        album: lyricsRequest.albumName,
+        // Sin duración en la petición, la del registro encontrado (en segundos)
+        duration: lyricsRequest.duration ?? (body.match?.duration ? body.match.duration * 1000 : undefined),
+        lyrics: body,
+        offset,
+      },
+      format
+    );
+    if (!file) {
+      throw new ApiError('not_found', `These lyrics are not synced, so \`${format}\` is not available. Use \`txt\` or \`json\`.`);
+    }
+
+    return new Response(file.content, {
+      headers: {
+        'Content-Type': file.contentType,
+        // filename* lleva el nombre UTF-8; filename, una versión ASCII para clientes antiguos
+        'Content-Disposition': `attachment; filename="${file.filename.replace(/[^\x20-\x7e]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(file.filename)}`,
+      },
+    });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
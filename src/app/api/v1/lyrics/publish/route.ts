@@ -0,0 +1,46 @@
+// src/app/api/v1/lyrics/publish/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api/errors';
+import type { PublishResponse } from '@/lib/api/types';
+import { parsePublishRequest } from '@/lib/api/validation';
+import { publishToLrclib } from '@/lib/publish';
+import { createRateLimiter } from '@/lib/rateLimit';
+import { spotifyClientFromRequest } from '@/lib/spotify';
+
+// La prueba de trabajo de LRCLIB puede tardar un par de minutos
+export const maxDuration = 300;
+
+// Cada publicación cuesta CPU del servidor (la prueba de trabajo): pocas por usuario
+const publishLimiter = createRateLimiter({ limit: 5, windowMs: 60 * 60 * 1000 });
+
+// --- Publish corrected / synced lyrics to LRCLIB ---
+// Solo con sesión de Spotify; el límite es por usuario de Spotify.
+export async function POST(request: NextRequest) {
+  try {
+    const spotifyApi = await spotifyClientFromRequest(request);
+    const body: unknown = await request.json().catch(() => {
+      throw new ApiError('invalid_request', 'Request body must be JSON.');
+    });
+    const publishRequest = parsePublishRequest(body);
+    const { body: user } = await spotifyApi.getMe();
+    const waitMs = publishLimiter.take(user.id);
+    if (waitMs !== null) {
+      const retryAfter = Math.ceil(waitMs / 1000);
+      throw new ApiError(
+        'rate_limited',
+        `Too many publishes. Try again in ${Math.ceil(retryAfter / 60)} min.`,
+        undefined,
+        undefined,
+        retryAfter
+      );
+    }
+    await publishToLrclib(publishRequest);
+    return NextResponse.json<PublishResponse>(
+      { published: true, synced: !!publishRequest.syncedLyrics },
+      { status: 201 }
+    );
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,19 @@
+// src/app/api/v1/lyrics/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api/errors';
+import type { LyricsResponse } from '@/lib/api/types';
+import { parseLyricsRequest } from '@/lib/api/validation';
+import { getLyrics } from '@/lib/lyrics';
+
+// --- Lyrics Fetch (providers + cache) ---
+// No necesita Spotify: funciona también en modo anónimo.
+export async function GET(request: NextRequest) {
+  try {
+    const lyricsRequest = parseLyricsRequest(request.nextUrl.searchParams);
+    const { body, headers } = await getLyrics(lyricsRequest);
+    return NextResponse.json<LyricsResponse>(body, { headers });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
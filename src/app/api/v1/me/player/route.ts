@@ -0,0 +1,29 @@
+// src/app/api/v1/me/player/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api/errors';
+import type { NowPlayingResponse } from '@/lib/api/types';
+import { spotifyClientFromRequest, toSearchResult } from '@/lib/spotify';
+
+// --- Currently playing track ---
+// El cliente lo consulta periódicamente para seguir la reproducción del usuario.
+export async function GET(request: NextRequest) {
+  try {
+    const spotifyApi = await spotifyClientFromRequest(request);
+    const res = await spotifyApi.getMyCurrentPlayingTrack();
+    // 204 sin cuerpo = no hay nada reproduciéndose
+    const body = res.statusCode === 204 ? null : res.body;
+    const item = body?.currently_playing_type === 'track' ? (body.item as SpotifyApi.TrackObjectFull | null) : null;
+    return NextResponse.json<NowPlayingResponse>(
+      {
+        track: item ? toSearchResult(item) : null,
+        isPlaying: !!item && !!body?.is_playing,
+        progressMs: body?.progress_ms ?? 0,
+        timestamp: Date.now(),
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,27 @@
+// src/app/api/v1/me/playlists/[id]/tracks/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api/errors';
+import type { TrackListResponse } from '@/lib/api/types';
+import { parsePageRequest, parseSpotifyId } from '@/lib/api/validation';
+import { spotifyClientFromRequest, toSearchResult } from '@/lib/spotify';
+
+// --- Tracks of a playlist ---
+// Episodios de podcast, pistas locales y pistas eliminadas se omiten: no tienen letra que buscar.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseSpotifyId((await params).id, 'playlist');
+    const { limit, offset } = parsePageRequest(request.nextUrl.searchParams);
+    const spotifyApi = await spotifyClientFromRequest(request);
+    const res = await spotifyApi.getPlaylistTracks(id, { limit, offset });
+    const results = res.body.items
+      .filter((item) => item.track && !item.is_local && item.track.type === 'track')
+      .map((item) => toSearchResult(item.track!));
+    return NextResponse.json<TrackListResponse>({ results, total: res.body.total });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
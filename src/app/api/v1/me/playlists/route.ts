@@ -0,0 +1,22 @@
+// src/app/api/v1/me/playlists/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api/errors';
+import type { PlaylistsResponse } from '@/lib/api/types';
+import { parsePageRequest } from '@/lib/api/validation';
+import { spotifyClientFromRequest, toPlaylistSummary } from '@/lib/spotify';
+
+// --- Current user's playlists (own and followed) ---
+export async function GET(request: NextRequest) {
+  try {
+    const { limit, offset } = parsePageRequest(request.nextUrl.searchParams);
+    const spotifyApi = await spotifyClientFromRequest(request);
+    const res = await spotifyApi.getUserPlaylists({ limit, offset });
+    return NextResponse.json<PlaylistsResponse>({
+      playlists: res.body.items.filter(Boolean).map(toPlaylistSummary),
+      total: res.body.total,
+    });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,25 @@
+// src/app/api/v1/me/recent/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api/errors';
+import type { TrackListResponse } from '@/lib/api/types';
+import { parsePageRequest } from '@/lib/api/validation';
+import { spotifyClientFromRequest, toSearchResult } from '@/lib/spotify';
+
+// --- Recently played tracks ---
+// Spotify pagina este endpoint por cursores, no por offset: solo se usa `limit`.
+export async function GET(request: NextRequest) {
+  try {
+    const { limit } = parsePageRequest(request.nextUrl.searchParams);
+    const spotifyApi = await spotifyClientFromRequest(request);
+    const res = await spotifyApi.getMyRecentlyPlayedTracks({ limit });
+    // La misma canción puede aparecer varias veces seguidas
+    const seen = new Set<string>();
+    const results = res.body.items
+      .map((item) => toSearchResult(item.track))
+      .filter((track) => !seen.has(track.id) && seen.add(track.id));
+    return NextResponse.json<TrackListResponse>({ results, total: results.length });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,22 @@
+// src/app/api/v1/me/tracks/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api/errors';
+import type { TrackListResponse } from '@/lib/api/types';
+import { parsePageRequest } from '@/lib/api/validation';
+import { spotifyClientFromRequest, toSearchResult } from '@/lib/spotify';
+
+// --- Saved tracks ("Liked Songs") ---
+export async function GET(request: NextRequest) {
+  try {
+    const { limit, offset } = parsePageRequest(request.nextUrl.searchParams);
+    const spotifyApi = await spotifyClientFromRequest(request);
+    const res = await spotifyApi.getMySavedTracks({ limit, offset });
+    return NextResponse.json<TrackListResponse>({
+      results: res.body.items.map((item) => toSearchResult(item.track)),
+      total: res.body.total,
+    });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
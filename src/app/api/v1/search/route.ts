@@ -0,0 +1,74 @@
+// src/app/api/v1/search/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api/errors';
+import type { SearchRequest, SearchResponse, SearchResult } from '@/lib/api/types';
+import { parseSearchRequest } from '@/lib/api/validation';
+import { recordToSearchResult, searchTracksByText, type LrclibRecord } from '@/lib/lrclib';
+import { searchByLyrics } from '@/lib/lyricSearch';
+import { withLyricsAvailability } from '@/lib/lyrics';
+import { optionalSpotifyClient, toSearchResult } from '@/lib/spotify';
+
+// Filtros de campo con la sintaxis de Spotify: artist:"…" album:"…" year:…
+function spotifyQuery({ query, artist, album, year }: SearchRequest): string {
+  const quote = (value: string) => `"${value.replace(/"/g, '')}"`;
+  return [
+    query,
+    artist && `artist:${quote(artist)}`,
+    album && `album:${quote(album)}`,
+    year && `year:${year}`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+// LRCLIB no tiene filtros por campo: artista y álbum se añaden al texto y el año no se aplica
+function lrclibResults(records: LrclibRecord[], { album }: SearchRequest): SearchResult[] {
+  const albumFilter = album?.toLowerCase();
+  return records
+    .filter((r) => !albumFilter || r.albumName.toLowerCase().includes(albumFilter))
+    .map(recordToSearchResult);
+}
+
+// --- Song Search ---
+// Spotify con el token del usuario o de aplicación; sin Spotify configurado, búsqueda de LRCLIB.
+// Con mode=lyrics, `query` es un fragmento de letra.
+export async function GET(request: NextRequest) {
+  try {
+    const search = parseSearchRequest(request.nextUrl.searchParams);
+    const { limit, offset, market } = search;
+    const spotifyApi = await optionalSpotifyClient(request);
+    if (search.mode === 'lyrics') {
+      return NextResponse.json<SearchResponse>(await searchByLyrics(search, spotifyApi));
+    }
+    if (spotifyApi) {
+      const res = await spotifyApi.searchTracks(spotifyQuery(search), {
+        limit,
+        offset,
+        ...(market && { market }),
+      });
+      const items = (res.body.tracks?.items ?? []).map(toSearchResult);
+      return NextResponse.json<SearchResponse>({
+        results: search.availability ? await withLyricsAvailability(items) : items,
+        source: 'spotify',
+        total: res.body.tracks?.total ?? items.length,
+        offset,
+        limit,
+      });
+    }
+
+    // LRCLIB devuelve una sola página (máx. 20): se pagina sobre ella
+    const text = [search.query, search.artist].filter(Boolean).join(' ') || search.album;
+    const records = text ? await searchTracksByText(text) : [];
+    const all = lrclibResults(records, search);
+    return NextResponse.json<SearchResponse>({
+      results: all.slice(offset, offset + limit),
+      source: 'lrclib',
+      total: all.length,
+      offset,
+      limit,
+    });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
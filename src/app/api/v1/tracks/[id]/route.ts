@@ -0,0 +1,23 @@
+// src/app/api/v1/tracks/[id]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api/errors';
+import type { TrackResponse } from '@/lib/api/types';
+import { parseSpotifyId } from '@/lib/api/validation';
+import { optionalSpotifyClient, toSearchResult } from '@/lib/spotify';
+
+// --- Spotify track by id ---
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseSpotifyId((await params).id);
+    const spotifyApi = await optionalSpotifyClient(request);
+    if (!spotifyApi) throw new ApiError('upstream_unavailable', 'Spotify is not configured on this server.', 'spotify');
+    const res = await spotifyApi.getTrack(id);
+    return NextResponse.json<TrackResponse>({ track: toSearchResult(res.body) });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,18 @@
+// src/app/api/v1/translation/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api/errors';
+import type { TranslationResponse } from '@/lib/api/types';
+import { parseTranslationRequest } from '@/lib/api/validation';
+import { getTranslation } from '@/lib/translation';
+
+// --- Translation / romanization ---
+// Igual que /lyrics, no necesita Spotify.
+export async function GET(request: NextRequest) {
+  try {
+    const translationRequest = parseTranslationRequest(request.nextUrl.searchParams);
+    return NextResponse.json<TranslationResponse>(await getTranslation(translationRequest));
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,37 @@
+// src/app/callback/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { exchangeCode } from '@/lib/auth/oauth';
+import { PKCE_COOKIE, saveSession, unseal, type PkceState } from '@/lib/auth/session';
+
+// Vuelta desde Spotify: valida el state, canjea el code y crea la sesión
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const home = new URL('/', request.nextUrl.origin);
+  const fail = (reason: string) => {
+    home.searchParams.set('auth_error', reason);
+    const response = NextResponse.redirect(home);
+    response.cookies.delete(PKCE_COOKIE);
+    return response;
+  };
+
+  const spotifyError = params.get('error');
+  if (spotifyError) return fail(spotifyError);
+
+  const pkce = unseal<PkceState>(request.cookies.get(PKCE_COOKIE)?.value);
+  const code = params.get('code');
+  if (!pkce || !code || params.get('state') !== pkce.state) {
+    return fail('invalid_state');
+  }
+
+  try {
+    await saveSession(await exchangeCode(code, pkce.verifier, request.nextUrl.origin));
+  } catch (err: unknown) {
+    console.error('Spotify code exchange failed:', err);
+    return fail('token_exchange_failed');
+  }
+
+  const response = NextResponse.redirect(home);
+  response.cookies.delete(PKCE_COOKIE);
+  return response;
+}
@@ -13,8 +13,16 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
+  // Base para las URLs absolutas de Open Graph en los enlaces compartidos
+  metadataBase: process.env.NEXT_PUBLIC_SITE_URL ? new URL(process.env.NEXT_PUBLIC_SITE_URL) : undefined,
   title: "Lyric Finder",
   description: "Find lyrics for your favorite songs",
+  openGraph: {
+    title: "Lyric Finder",
+    description: "Find lyrics for your favorite songs",
+    siteName: "Lyric Finder",
+    type: "website",
+  },
 };
 
 export default function RootLayout({
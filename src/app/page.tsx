@@ -2,213 +2,1013 @@
 
 import { useState, useRef, useCallback, useEffect } from "react";
 import Image from "next/image";
-import { toPng } from "html-to-image";
+import BatchLookup from "@/components/BatchLookup";
+import CardEditor from "@/components/CardEditor";
+import HighlightedText from "@/components/HighlightedText";
+import LibraryPanel from "@/components/LibraryPanel";
+import LyricsFind from "@/components/LyricsFind";
+import ManualTrackForm from "@/components/ManualTrackForm";
+import ShareCard from "@/components/ShareCard";
+import SpotifyLibrary from "@/components/SpotifyLibrary";
+import SyncEditor from "@/components/SyncEditor";
+import {
+  exportFormats,
+  exportPresets,
+  MAX_CUSTOM_SIZE,
+  MIN_CUSTOM_SIZE,
+  type CardSize,
+  type ExportFormat,
+} from "@/lib/card/presets";
+import { lyricsCredit } from "@/lib/card/layout";
+import { extractPalette, type CardPalette } from "@/lib/card/palette";
+import { defaultCardStyle, layoutShowsCover, type CardStyle } from "@/lib/card/style";
+import { lyricsExportFormats } from "@/lib/lyricsExport";
+import {
+  buildVideoTimeline,
+  canRecordWebm,
+  encodeLyricGif,
+  recordWebm,
+  type LineEffect,
+  type VideoFormat,
+  type VideoTimelineResult,
+} from "@/lib/lyricVideo";
+import { ROMANIZED_TARGET } from "@/lib/romanize";
+import {
+  buildCardLines,
+  buildCardLineTimes,
+  buildCardSecondaryLines,
+  DEFAULT_MAX_SELECTED_LINES,
+  lyricsDisplayLines,
+  MAX_SELECTED_LINES_LIMIT,
+  selectRange,
+  toggleLine,
+  type LineExcerpts,
+  type SelectionResult,
+} from "@/lib/selection";
+import {
+  canShareFiles,
+  copyPngToClipboard,
+  dataUrlToBlob,
+  downloadDataUrl,
+  renderNode,
+  shareImage,
+} from "@/lib/imageExport";
+import { buildTrackLink, isSpotifyTrackId, parseTrackLink, type TrackLink } from "@/lib/deepLink";
+import {
+  addToHistory,
+  clearHistory,
+  deleteQuote,
+  exportLibrary,
+  getFavorites,
+  getHistory,
+  getQuotes,
+  importLibrary,
+  saveQuote,
+  toggleFavorite,
+  type FavoriteEntry,
+  type HistoryEntry,
+  type SavedQuote,
+} from "@/lib/library";
+import {
+  findActiveLineIndex,
+  formatTimestamp,
+  parseDuration,
+  type SyncedLine,
+} from "@/lib/lrc";
+import type { MatchQuality } from "@/lib/match";
+import type { LyricsCandidate, LyricsMatch } from "@/lib/providers/types";
+import { findRanges, snippetTerms } from "@/lib/textSearch";
+import type {
+  ApiErrorBody,
+  LyricsAvailability,
+  LyricsResponse,
+  NowPlayingResponse,
+  SearchMode,
+  SearchResponse,
+  SearchResult,
+  SessionResponse,
+  TrackResponse,
+  TranslationResponse,
+} from "@/lib/api/types";
 
-interface SearchResult {
-  id: string;
-  title: string;
+// Preferencia del usuario: máximo de líneas seleccionables
+const MAX_LINES_STORAGE_KEY = "lyricFinder.maxSelectedLines";
+// Preferencia del usuario: texto paralelo bajo la letra ("" = ninguno)
+const TRANSLATION_STORAGE_KEY = "lyricFinder.translationTarget";
+// Paso del ajuste manual de desfase (ms) para LRC mal sincronizados
+const OFFSET_STEP_MS = 250;
+// Duración de las previews de Spotify hasta que el audio carga la real
+const PREVIEW_DURATION_MS = 30_000;
+// Frecuencia de consulta de "Now playing" a Spotify
+const NOW_PLAYING_POLL_MS = 5000;
+// Búsqueda mientras se escribe
+const SEARCH_DEBOUNCE_MS = 400;
+const MIN_LIVE_QUERY_LENGTH = 2;
+// Igual que en la API: un fragmento de letra más corto aparece en casi cualquier canción
+const MIN_LYRICS_QUERY_LENGTH = 6;
+const SEARCH_PAGE_SIZE = 10;
+// Marcar qué resultados tienen letra cuesta una consulta a LRCLIB por resultado: se pide al buscar
+// con Enter o al cambiar de página y, en la búsqueda en vivo, solo cuando se deja de escribir
+const AVAILABILITY_IDLE_MS = 1500;
+
+// Filtros de campo de la búsqueda (artist:, album:, year:) y mercado de Spotify
+interface SearchFilters {
   artist: string;
   album: string;
-  duration: number;
-  thumbnailUrl?: string;
-  previewUrl?: string;
+  year: string;
+  market: string;
 }
 
-const MAX_SELECTED_LINES = 4;
+const emptyFilters: SearchFilters = { artist: "", album: "", year: "", market: "" };
 
-const fontOptions = [
-  { name: "Geist Sans", value: "var(--font-geist-sans)" },
-  { name: "Geist Mono", value: "var(--font-geist-mono)" },
-  { name: "Inter", value: "Inter, sans-serif" },
-  { name: "Roboto Mono", value: '"Roboto Mono", monospace' },
-  { name: "Merriweather", value: "Merriweather, serif" },
+const translationTargets = [
+  { id: "", name: "Off" },
+  { id: ROMANIZED_TARGET, name: "Romanized" },
+  { id: "en", name: "English" },
+  { id: "es", name: "Spanish" },
+  { id: "fr", name: "French" },
+  { id: "de", name: "German" },
+  { id: "pt", name: "Portuguese" },
+  { id: "ja", name: "Japanese" },
+  { id: "ko", name: "Korean" },
 ];
 
-const gradientPresets = [
-  { name: "Default", value: "bg-gradient-to-br from-purple-600 to-indigo-600" },
-  { name: "Sunset", value: "bg-gradient-to-br from-red-500 to-orange-500" },
-  { name: "Ocean", value: "bg-gradient-to-br from-blue-400 to-emerald-400" },
-  { name: "Forest", value: "bg-gradient-to-br from-green-500 to-lime-600" },
-  { name: "Twilight", value: "bg-gradient-to-br from-indigo-500 to-purple-800" },
-  { name: "Mono", value: "bg-gradient-to-br from-gray-700 to-gray-900" },
-];
+// Parámetros de /lyrics (y /translation); con `pick` se fuerza un candidato concreto
+function lyricsParams(song: SearchResult, pick?: LyricsCandidate | null): URLSearchParams {
+  const params = new URLSearchParams({
+    trackName: song.title,
+    artistName: song.artist,
+  });
+  if (song.album) params.set("albumName", song.album);
+  if (song.duration > 0) params.set("duration", String(song.duration));
+  if (pick) {
+    params.set("provider", pick.source);
+    params.set("candidateId", String(pick.id));
+  }
+  return params;
+}
+
+const availabilityLabels: Record<LyricsAvailability, string> = {
+  synced: "Synced lyrics",
+  plain: "Plain lyrics",
+  instrumental: "Instrumental",
+  none: "No lyrics",
+};
+
+const availabilityClasses: Record<LyricsAvailability, string> = {
+  synced: "bg-green-200 dark:bg-green-800",
+  plain: "bg-blue-200 dark:bg-blue-800",
+  instrumental: "bg-purple-200 dark:bg-purple-800",
+  none: "bg-gray-200 dark:bg-gray-700",
+};
 
 export default function Home() {
   const [searchQuery, setSearchQuery] = useState("");
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>(emptyFilters);
+  const [searchMode, setSearchMode] = useState<SearchMode>("tracks");
+  const [showFilters, setShowFilters] = useState(false);
+  // Página actual de resultados; null antes de la primera búsqueda
+  const [searchPage, setSearchPage] = useState<Omit<SearchResponse, "results"> | null>(null);
+  const [showResults, setShowResults] = useState(false);
+  const searchAbortRef = useRef<AbortController | null>(null);
   const [selectedSong, setSelectedSong] = useState<SearchResult | null>(null);
   const [lyrics, setLyrics] = useState("");
   const [lyricsSource, setLyricsSource] = useState<string | null>(null);
+  const [lyricsAttribution, setLyricsAttribution] = useState<string | null>(null);
+  // Motivo de que no haya letra ("No lyrics found.")
+  const [lyricsMessage, setLyricsMessage] = useState("");
+  const [lyricsStatus, setLyricsStatus] = useState<LyricsAvailability | null>(null);
+  const [lyricsQuality, setLyricsQuality] = useState<MatchQuality | null>(null);
+  const [findQuery, setFindQuery] = useState("");
+  const [findIndex, setFindIndex] = useState(0);
+  const [showSyncEditor, setShowSyncEditor] = useState(false);
   const [isSynced, setIsSynced] = useState(false);
+  const [syncedLines, setSyncedLines] = useState<SyncedLine[]>([]);
+  const [lyricsMatch, setLyricsMatch] = useState<LyricsMatch | null>(null);
+  const [lyricsCandidates, setLyricsCandidates] = useState<LyricsCandidate[]>([]);
+  const [showCandidates, setShowCandidates] = useState(false);
   const [selectedLineIndices, setSelectedLineIndices] = useState<number[]>([]);
+  const [lineExcerpts, setLineExcerpts] = useState<LineExcerpts>({});
+  const [selectionAnchor, setSelectionAnchor] = useState<number | null>(null);
+  const [selectionNotice, setSelectionNotice] = useState("");
+  const [maxSelectedLines, setMaxSelectedLines] = useState(DEFAULT_MAX_SELECTED_LINES);
+  // Texto final de la tarjeta, editable en el modal
+  const [cardText, setCardText] = useState("");
+  const [cardCredit, setCardCredit] = useState("");
+  // Traducción de cada línea de la tarjeta, editable como cardText
+  const [cardSecondary, setCardSecondary] = useState("");
+  // Texto paralelo (traducción o romanización) alineado con las líneas mostradas
+  const [translationTarget, setTranslationTarget] = useState("");
+  const [translation, setTranslation] = useState<TranslationResponse | null>(null);
+  const [translationNotice, setTranslationNotice] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [isFetchingLyrics, setIsFetchingLyrics] = useState(false);
   const [error, setError] = useState("");
   const [isModalOpen, setIsModalOpen] = useState(false);
   const previewRef = useRef<HTMLDivElement>(null);
-  const [selectedFont, setSelectedFont] = useState(fontOptions[1].value);
-  const [selectedGradient, setSelectedGradient] = useState(gradientPresets[0].value);
+  const [cardStyle, setCardStyle] = useState<CardStyle>(defaultCardStyle);
   const [coverKey, setCoverKey] = useState(Date.now());
   const [coverLoaded, setCoverLoaded] = useState(false);
-  const [accessToken, setAccessToken] = useState<string | null>(null);
+  const [exportPresetId, setExportPresetId] = useState(exportPresets[0].id);
+  const [customSize, setCustomSize] = useState<CardSize>(exportPresets.find((p) => p.id === "custom")!.size!);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("png");
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportNotice, setExportNotice] = useState("");
+  // Exportación animada: efecto, audio de la preview, estado de la tarjeta al renderizar cada fotograma
+  const [lineEffect, setLineEffect] = useState<LineEffect>("reveal");
+  const [videoWithAudio, setVideoWithAudio] = useState(true);
+  const [videoLine, setVideoLine] = useState<number | null>(null);
+  const [videoProgress, setVideoProgress] = useState<number | null>(null);
+  const [coverPalette, setCoverPalette] = useState<CardPalette | null>(null);
+  const [isExtractingPalette, setIsExtractingPalette] = useState(false);
+  // null mientras se consulta /api/auth/session
+  const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
+  // Uso sin cuenta de Spotify (token de aplicación o búsqueda de LRCLIB)
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  const [showManualForm, setShowManualForm] = useState(false);
+  // Biblioteca local (IndexedDB)
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showBatch, setShowBatch] = useState(false);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [favorites, setFavorites] = useState<FavoriteEntry[]>([]);
+  const [quotes, setQuotes] = useState<SavedQuote[]>([]);
+  // Biblioteca de Spotify y seguimiento de la reproducción actual
+  const [showSpotifyLibrary, setShowSpotifyLibrary] = useState(false);
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [nowPlaying, setNowPlaying] = useState<NowPlayingResponse | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const lyricsContainerRef = useRef<HTMLDivElement>(null);
+  const [isPlaybackMode, setIsPlaybackMode] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const [playbackOffset, setPlaybackOffset] = useState(0);
+  // Posición del clip dentro de la canción (m:ss o segundos); Spotify no la indica
+  const [clipStart, setClipStart] = useState("0:00");
+  const [clipDuration, setClipDuration] = useState(PREVIEW_DURATION_MS);
 
-  // Config Spotify
-  const SPOTIFY_CLIENT_ID = process.env.NEXT_PUBLIC_SPOTIFY_CLIENT_ID || "";
-  const SPOTIFY_REDIRECT_URI = process.env.NEXT_PUBLIC_SPOTIFY_REDIRECT_URI || "";
-
-  const lyricsLines = lyrics.split("\n");
+  // Con letra sincronizada, cada línea mostrada corresponde a una marca de tiempo
+  const lyricsLines = isSynced ? syncedLines.map((l) => l.text) : lyrics.split("\n");
+  // Coincidencias de "Find in lyrics", por línea y en orden
+  const findLineRanges = lyricsLines.map((line) => (findQuery.trim() ? findRanges(line, [findQuery]) : []));
+  const findMatches = findLineRanges.flatMap((ranges, line) => ranges.map((_, range) => ({ line, range })));
+  const currentFind = findMatches.length ? findMatches[findIndex % findMatches.length] : null;
   const getSelectedLineContent = useCallback(() => {
     if (!lyrics || selectedLineIndices.length === 0) return [];
-    return [...selectedLineIndices]
-      .sort((a, b) => a - b)
-      .map((i) => lyricsLines[i] || "");
-  }, [lyrics, lyricsLines, selectedLineIndices]);
+    return buildCardLines(selectedLineIndices, lyricsLines, lineExcerpts);
+  }, [lyrics, lyricsLines, selectedLineIndices, lineExcerpts]);
+
+  // Traducción de las líneas seleccionadas; "" si no hay ninguna
+  const getSelectedSecondaryContent = () => {
+    const lines = translation ? buildCardSecondaryLines(selectedLineIndices, translation.lines) : [];
+    return lines.some((l) => l.trim()) ? lines.join("\n") : "";
+  };
+
+  const clipStartMs = parseDuration(clipStart) ?? 0;
+  // Instante de la canción: en modo karaoke, tiempo del clip + su inicio; siguiendo a Spotify
+  // el progreso ya es de la canción. El desfase manual se suma en ambos casos.
+  const songTime = playbackTime + (isFollowing ? 0 : clipStartMs) + playbackOffset;
+  const activeLineIndex =
+    (isPlaybackMode || isFollowing) && isSynced ? findActiveLineIndex(syncedLines, songTime) : -1;
+
+  useEffect(() => {
+    const stored = parseInt(localStorage.getItem(MAX_LINES_STORAGE_KEY) ?? "", 10);
+    if (stored >= 1 && stored <= MAX_SELECTED_LINES_LIMIT) setMaxSelectedLines(stored);
+    const target = localStorage.getItem(TRANSLATION_STORAGE_KEY) ?? "";
+    if (translationTargets.some((t) => t.id === target)) setTranslationTarget(target);
+  }, []);
+
+  useEffect(() => {
+    Promise.all([getHistory(), getFavorites(), getQuotes()])
+      .then(([h, f, q]) => {
+        setHistory(h);
+        setFavorites(f);
+        setQuotes(q);
+      })
+      // Sin IndexedDB (p. ej. navegación privada) la app funciona sin biblioteca
+      .catch(() => undefined);
+  }, []);
+
+  // openTrackLink del último render, para abrir el enlace cuando se conoce la sesión
+  const openTrackLinkRef = useRef<(link: TrackLink) => void>(() => undefined);
+  useEffect(() => {
+    openTrackLinkRef.current = openTrackLink;
+  });
 
-  // Extraer token de la URL
+  // Estado de sesión (cookie HTTP-only) y errores devueltos por /callback; solo al montar
   useEffect(() => {
-    const hash = window.location.hash;
-    if (!hash) return;
-    const params = new URLSearchParams(hash.substring(1));
-    const token = params.get("access_token");
-    if (token) {
-      setAccessToken(token);
-      window.history.replaceState(null, "", window.location.pathname);
+    const url = new URL(window.location.href);
+    const authError = url.searchParams.get("auth_error");
+    if (authError) {
+      setError(`Spotify login failed (${authError}).`);
+      url.searchParams.delete("auth_error");
+      window.history.replaceState(null, "", url.pathname + url.search);
     }
+    // Enlace compartido (/track/<id>?lines=…): sin sesión se abre en modo anónimo
+    const link = parseTrackLink(url.pathname, url.search);
+    fetch("/api/auth/session")
+      .then((res) => res.json() as Promise<SessionResponse>)
+      .then((session) => session.authenticated)
+      .catch(() => false)
+      .then((authenticated) => {
+        setIsAuthenticated(authenticated);
+        if (!link) return;
+        if (!authenticated) setIsAnonymous(true);
+        openTrackLinkRef.current(link);
+      });
   }, []);
 
+  // La URL refleja canción, selección y estilo para poder compartirla tal cual
+  useEffect(() => {
+    if (!selectedSong) return;
+    const path = isSpotifyTrackId(selectedSong.id)
+      ? buildTrackLink(selectedSong.id, { lines: selectedLineIndices, style: cardStyle, preview: isModalOpen })
+      : "/";
+    if (path !== window.location.pathname + window.location.search) {
+      window.history.replaceState(null, "", path);
+    }
+  }, [selectedSong, selectedLineIndices, cardStyle, isModalOpen]);
+
   const handleSpotifyLogin = () => {
-    if (!SPOTIFY_CLIENT_ID || !SPOTIFY_REDIRECT_URI) {
-      alert("Configura Spotify Client ID y Redirect URI en .env.local");
+    window.location.href = "/api/auth/login";
+  };
+
+  const handleLogout = async () => {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => undefined);
+    resetPlayback();
+    setIsAuthenticated(false);
+    setIsAnonymous(false);
+    setIsFollowing(false);
+    setShowSpotifyLibrary(false);
+    setSearchResults([]);
+    setSelectedSong(null);
+    setLyrics("");
+    clearSelection();
+  };
+
+  // "Now playing": consulta periódica mientras se sigue la reproducción de Spotify
+  useEffect(() => {
+    if (!isFollowing) return;
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const res = await fetch("/api/v1/me/player");
+        const body = await res.json();
+        if (cancelled) return;
+        if (!res.ok) {
+          setError((body as ApiErrorBody).error?.message ?? `Error ${res.status}`);
+          setIsFollowing(false);
+          return;
+        }
+        // El progreso se cuenta desde la recepción con el reloj local
+        setNowPlaying({ ...(body as NowPlayingResponse), timestamp: Date.now() });
+      } catch {
+        // Fallo de red puntual: se reintenta en la siguiente consulta
+      }
+    };
+    poll();
+    const timer = setInterval(poll, NOW_PLAYING_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [isFollowing]);
+
+  // handleSelectSong del último render, para abrir canciones desde efectos
+  const selectSongRef = useRef<(song: SearchResult) => void>(() => undefined);
+  useEffect(() => {
+    selectSongRef.current = handleSelectSong;
+  });
+
+  // Al cambiar de canción en Spotify se abre su letra; solo una vez por canción, para que
+  // abrir otra a mano mientras suena no se deshaga en la siguiente consulta
+  const openedNowPlayingRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!isFollowing) {
+      openedNowPlayingRef.current = null;
+      return;
+    }
+    const track = nowPlaying?.track;
+    if (!track || track.id === openedNowPlayingRef.current) return;
+    openedNowPlayingRef.current = track.id;
+    if (track.id !== selectedSong?.id) selectSongRef.current(track);
+  }, [isFollowing, nowPlaying, selectedSong?.id]);
+
+  // Entre consultas el progreso se extrapola para que el resaltado avance con fluidez
+  useEffect(() => {
+    if (!isFollowing || !nowPlaying?.track) return;
+    if (!nowPlaying.isPlaying) {
+      setPlaybackTime(nowPlaying.progressMs);
       return;
     }
-    const authUrl = `https://accounts.spotify.com/authorize?${new URLSearchParams({
-      response_type: "token",
-      client_id: SPOTIFY_CLIENT_ID,
-      scope: "user-read-private user-read-email",
-      redirect_uri: SPOTIFY_REDIRECT_URI,
-    }).toString()}`;
-    window.location.href = authUrl;
-  };
-
-  // Wrapper de fetch con token
-  const fetchApi = async <T = unknown>(url: string): Promise<T> => {
-    const res = await fetch(url, {
-      headers: { Authorization: `Bearer ${accessToken}` },
+    let frame = 0;
+    const tick = () => {
+      setPlaybackTime(nowPlaying.progressMs + Date.now() - nowPlaying.timestamp);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isFollowing, nowPlaying]);
+
+  const toggleFollowing = () => {
+    if (!isFollowing) {
+      // El clip de 30 s y la reproducción de Spotify no pueden mandar a la vez
+      audioRef.current?.pause();
+      setIsPlaybackMode(false);
+      setShowSpotifyLibrary(false);
+    }
+    setNowPlaying(null);
+    setIsFollowing((v) => !v);
+  };
+
+  // Reloj de reproducción: rAF mientras suena, para un resaltado fluido
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      const audio = audioRef.current;
+      if (audio) setPlaybackTime(audio.currentTime * 1000);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  // Centra una línea dentro de lyrics-container (su offsetParent, por el `relative`)
+  const scrollToLine = (index: number) => {
+    const container = lyricsContainerRef.current;
+    const el = container?.querySelector<HTMLElement>(`[data-line-index="${index}"]`);
+    if (!container || !el) return;
+    container.scrollTo({
+      top: el.offsetTop - container.clientHeight / 2 + el.clientHeight / 2,
+      behavior: "smooth",
     });
-    if (!res.ok) {
-      if (res.status === 401) {
-        setAccessToken(null);
-        throw new Error("Spotify session expired.");
+  };
+
+  // Auto-scroll de la línea activa
+  useEffect(() => {
+    if (activeLineIndex >= 0) scrollToLine(activeLineIndex);
+  }, [activeLineIndex]);
+
+  // Salto a la coincidencia actual de "Find in lyrics", también al abrir otra letra
+  const currentFindLine = currentFind?.line ?? -1;
+  useEffect(() => {
+    if (currentFindLine >= 0) scrollToLine(currentFindLine);
+  }, [currentFindLine, lyrics]);
+
+  const resetPlayback = () => {
+    audioRef.current?.pause();
+    setIsPlaying(false);
+    setPlaybackTime(0);
+    setPlaybackOffset(0);
+    setClipStart("0:00");
+    setClipDuration(PREVIEW_DURATION_MS);
+  };
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(() => setError("Could not play the preview clip."));
+    } else {
+      audio.pause();
+    }
+  };
+
+  // Saltar a una línea: el clip se mueve al instante equivalente
+  const seekToLine = (index: number) => {
+    const audio = audioRef.current;
+    const line = syncedLines[index];
+    if (!audio || !line) return;
+    const target = (line.time - clipStartMs - playbackOffset) / 1000;
+    const max = Number.isFinite(audio.duration) ? audio.duration : clipDuration / 1000;
+    audio.currentTime = Math.min(Math.max(target, 0), max);
+    setPlaybackTime(audio.currentTime * 1000);
+  };
+
+  // Wrapper de fetch; la sesión viaja en la cookie y el servidor renueva el token.
+  // Estable entre renders para que los efectos que cargan datos no se repitan.
+  const fetchApi = useCallback(
+    async <T = unknown>(url: string, init?: RequestInit): Promise<T> => {
+      const res = await fetch(url, init);
+      if (!res.ok) {
+        if (res.status === 401 && isAuthenticated) {
+          setIsAuthenticated(false);
+          throw new Error("Spotify session expired.");
+        }
+        const body: Partial<ApiErrorBody> = await res.json().catch(() => ({}));
+        throw new Error(body.error?.message ?? `Error ${res.status}`);
       }
-      const body: { error?: string } = await res.json().catch(() => ({}));
-      throw new Error(body.error ?? `Error ${res.status}`);
+      return res.json();
+    },
+    [isAuthenticated]
+  );
+
+  const hasSearchInput =
+    searchMode === "lyrics"
+      ? searchQuery.trim().length >= MIN_LYRICS_QUERY_LENGTH
+      : !!searchQuery.trim() || Object.values(searchFilters).some((v) => v.trim());
+
+  const searchParams = (offset: number, availability: boolean) => {
+    const params = new URLSearchParams({
+      mode: searchMode,
+      query: searchQuery.trim(),
+      limit: String(SEARCH_PAGE_SIZE),
+      offset: String(offset),
+    });
+    if (availability) params.set("availability", "1");
+    for (const [key, value] of Object.entries(searchFilters)) {
+      if (value.trim()) params.set(key, value.trim());
     }
-    return res.json();
+    return params;
   };
 
-  // Búsqueda de canciones
-  const handleSearch = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!searchQuery.trim()) return;
+  // Búsqueda de canciones; cada búsqueda nueva cancela la anterior si aún no ha respondido
+  const runSearch = async (offset = 0, availability = true) => {
+    searchAbortRef.current?.abort();
+    if (!hasSearchInput) return;
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+    const params = searchParams(offset, availability);
     setIsLoading(true);
     setError("");
     try {
-      interface SearchResponse { results?: SearchResult[] }
-      const data = await fetchApi<SearchResponse>(`/api/lyrics?query=${encodeURIComponent(searchQuery)}`);
-      setSearchResults(data.results ?? []);
-      if (!data.results?.length) setError("No songs found.");
+      const { results, ...page } = await fetchApi<SearchResponse>(`/api/v1/search?${params}`, {
+        signal: controller.signal,
+      });
+      setSearchResults(results);
+      setSearchPage(page);
+      setShowResults(true);
+      if (!results.length) setError("No songs found.");
     } catch (e: unknown) {
+      if (e instanceof DOMException && e.name === "AbortError") return;
       const msg = e instanceof Error ? e.message : String(e);
       setError(msg);
     } finally {
-      setIsLoading(false);
+      if (searchAbortRef.current === controller) {
+        searchAbortRef.current = null;
+        setIsLoading(false);
+      }
     }
   };
 
-  // Selección de canción y fetch de letras
-  const handleSelectSong = async (song: SearchResult) => {
-    setSelectedSong(song);
+  // Añade la letra disponible a los resultados ya mostrados de la búsqueda en vivo, sin tocar
+  // nada más de la pantalla; los resultados de LRCLIB (sin Spotify o por letra) ya la traen
+  const markAvailability = async (signal: AbortSignal) => {
+    if (searchMode !== "tracks" || !hasSearchInput) return;
+    try {
+      const { results, source } = await fetchApi<SearchResponse>(`/api/v1/search?${searchParams(0, true)}`, { signal });
+      if (source !== "spotify") return;
+      const marked = new Map(results.map((r) => [r.id, r.lyrics]));
+      setSearchResults((prev) => prev.map((r) => (r.lyrics ? r : { ...r, lyrics: marked.get(r.id) })));
+    } catch {
+      // Sin marcas: los resultados siguen valiendo
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    runSearch();
+  };
+
+  // Funciones de búsqueda del último render: leen el estado actual sin ser dependencias del debounce
+  const runSearchRef = useRef(runSearch);
+  const markAvailabilityRef = useRef(markAvailability);
+  useEffect(() => {
+    runSearchRef.current = runSearch;
+    markAvailabilityRef.current = markAvailability;
+  });
+
+  // Búsqueda mientras se escribe, con debounce
+  useEffect(() => {
+    const query = searchQuery.trim();
+    const hasFilters = Object.values(searchFilters).some((v) => v.trim());
+    if (searchMode === "lyrics" ? query.length < MIN_LYRICS_QUERY_LENGTH : query.length < MIN_LIVE_QUERY_LENGTH && !hasFilters) {
+      return;
+    }
+    const timer = setTimeout(() => runSearchRef.current(0, false), SEARCH_DEBOUNCE_MS);
+    const controller = new AbortController();
+    const idleTimer = setTimeout(() => markAvailabilityRef.current(controller.signal), AVAILABILITY_IDLE_MS);
+    return () => {
+      clearTimeout(timer);
+      clearTimeout(idleTimer);
+      controller.abort();
+    };
+  }, [searchQuery, searchFilters, searchMode]);
+
+  // Fetch de letras; con `pick` se fuerza un candidato concreto de un proveedor
+  const fetchLyrics = async (song: SearchResult, pick?: LyricsCandidate): Promise<LyricsResponse | null> => {
     setIsFetchingLyrics(true);
     setError("");
     try {
-      interface LyricsResponse { lyrics?: string; source?: string; isSynced?: boolean }
-      const params = new URLSearchParams({
-        trackName: song.title,
-        artistName: song.artist,
-        albumName: song.album,
-        duration: String(song.duration),
-      });
-      const data = await fetchApi<LyricsResponse>(`/api/lyrics?${params}`);
+      const data = await fetchApi<LyricsResponse>(`/api/v1/lyrics?${lyricsParams(song, pick)}`);
       setLyrics(data.lyrics ?? "");
       setLyricsSource(data.source ?? null);
-      setIsSynced(data.isSynced ?? false);
+      setLyricsAttribution(data.attribution ?? null);
+      setLyricsMessage(data.lyrics ? "" : data.message ?? "No lyrics found.");
+      setLyricsStatus(data.status);
+      setLyricsQuality(data.quality);
+      setFindQuery("");
+      setShowSyncEditor(false);
+      setSyncedLines(data.synced?.lines ?? []);
+      setIsSynced(!!data.isSynced && !!data.synced?.lines.length);
+      setLyricsMatch(data.match ?? null);
+      clearSelection();
+      setShowCandidates(false);
+      // Al elegir a mano conservamos la lista original de alternativas
+      if (!pick) {
+        setLyricsCandidates(data.candidates);
+      } else if (lyricsMatch) {
+        const previous = lyricsMatch;
+        setLyricsCandidates((prev) => [
+          previous,
+          ...prev.filter(
+            (c) =>
+              !(c.source === pick.source && c.id === pick.id) &&
+              !(c.source === previous.source && c.id === previous.id)
+          ),
+        ]);
+      }
+      return data;
     } catch (e: unknown) {
       const msg = e instanceof Error ? e.message : String(e);
       setError(msg);
+      return null;
     } finally {
       setIsFetchingLyrics(false);
     }
   };
 
-  // Lógica de selección de líneas
-  const handleLineSelect = (index: number) => {
-    setSelectedLineIndices((prev) => {
-      if (prev.length === 0) return [index];
-      if (prev.includes(index)) return [];
-      const sorted = [...prev].sort((a, b) => a - b);
-      const [min, max] = [sorted[0], sorted.at(-1)!];
-      if ((index === min - 1 || index === max + 1) && prev.length < MAX_SELECTED_LINES) {
-        return [...prev, index];
-      }
-      if (prev.length >= MAX_SELECTED_LINES) {
-        alert(`Only ${MAX_SELECTED_LINES} lines allowed.`);
-        return prev;
-      }
-      return [index];
-    });
+  // Texto paralelo de la letra actual; una letra elegida a mano se traduce tal cual
+  useEffect(() => {
+    setTranslation(null);
+    setTranslationNotice("");
+    if (!selectedSong || !lyrics || !translationTarget) return;
+    const controller = new AbortController();
+    const params = lyricsParams(selectedSong, lyricsMatch?.strategy === "manual" ? lyricsMatch : null);
+    params.set("target", translationTarget);
+    fetchApi<TranslationResponse>(`/api/v1/translation?${params}`, { signal: controller.signal })
+      .then(setTranslation)
+      .catch((e: unknown) => {
+        if (e instanceof DOMException && e.name === "AbortError") return;
+        setTranslationNotice(e instanceof Error ? e.message : String(e));
+      });
+    return () => controller.abort();
+  }, [selectedSong, lyrics, lyricsMatch, translationTarget, fetchApi]);
+
+  // Descarga de la letra mostrada; incluye el desfase ajustado en el modo karaoke
+  const lyricsExportUrl = (format: string) => {
+    const params = lyricsParams(selectedSong!, lyricsMatch?.strategy === "manual" ? lyricsMatch : null);
+    params.set("format", format);
+    if (playbackOffset) params.set("offset", String(playbackOffset));
+    return `/api/v1/lyrics/export?${params}`;
+  };
+
+  const handleTranslationTargetChange = (target: string) => {
+    setTranslationTarget(target);
+    localStorage.setItem(TRANSLATION_STORAGE_KEY, target);
+  };
+
+  // Selección de canción y fetch de letras
+  const handleSelectSong = async (song: SearchResult) => {
+    resetPlayback();
+    setShowResults(false);
+    setSelectedSong(song);
+    addToHistory(song).then(setHistory).catch(() => undefined);
+    setLyricsCandidates([]);
+    setLyricsMatch(null);
+    setLyricsQuality(null);
+    return fetchLyrics(song);
+  };
+
+  // Restaura un enlace compartido: canción, letra, selección, estilo y, si se pide, la vista previa
+  const openTrackLink = async (link: TrackLink) => {
+    setIsLoading(true);
+    let song: SearchResult;
+    try {
+      song = (await fetchApi<TrackResponse>(`/api/v1/tracks/${link.trackId}`)).track;
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+      return;
+    } finally {
+      setIsLoading(false);
+    }
+    const data = await handleSelectSong(song);
+    if (link.style) setCardStyle(link.style);
+    if (!data?.lyrics) return;
+    const lines = lyricsDisplayLines(data)!;
+    const synced = !!data.isSynced && !!data.synced?.lines.length;
+    const indices = link.lines.filter((i) => i < lines.length);
+    setSelectedLineIndices(indices);
+    if (!link.preview || !indices.length) return;
+    setCardText(buildCardLines(indices, lines).join("\n"));
+    // La traducción aún no ha llegado: se puede añadir después con "Reset"
+    setCardSecondary("");
+    setCardCredit(lyricsCredit(data.attribution, data.source, synced));
+    showModal(link.style ?? cardStyle, song);
+  };
+
+  const handlePickCandidate = (candidate: LyricsCandidate) => {
+    if (!selectedSong) return;
+    resetPlayback();
+    fetchLyrics(selectedSong, candidate);
+  };
+
+  const clearSelection = () => {
+    setSelectedLineIndices([]);
+    setLineExcerpts({});
+    setSelectionAnchor(null);
+    setSelectionNotice("");
+  };
+
+  const applySelection = (result: SelectionResult) => {
+    if (!result.ok) {
+      setSelectionNotice(result.reason);
+      return false;
+    }
+    setSelectionNotice("");
+    setSelectedLineIndices(result.indices);
+    // Los fragmentos de líneas que ya no están seleccionadas se descartan
+    setLineExcerpts((prev) =>
+      Object.fromEntries(Object.entries(prev).filter(([i]) => result.indices.includes(Number(i))))
+    );
+    return true;
+  };
+
+  // Lógica de selección de líneas: clic alterna, shift-clic selecciona el rango desde el ancla
+  const handleLineSelect = (index: number, shiftKey: boolean) => {
+    // Un arrastre para seleccionar texto dentro de la línea lo gestiona handleLineMouseUp
+    if (window.getSelection()?.toString()) return;
+    const isSelectable = (i: number) => (lyricsLines[i] ?? "").trim() !== "";
+    const result = shiftKey
+      ? selectRange(selectedLineIndices, selectionAnchor, index, maxSelectedLines, isSelectable)
+      : toggleLine(selectedLineIndices, index, maxSelectedLines);
+    if (applySelection(result)) setSelectionAnchor(index);
+  };
+
+  // Seleccionar un fragmento de una línea con el ratón lo usa en lugar de la línea completa
+  const handleLineMouseUp = (index: number, element: HTMLElement) => {
+    const selection = window.getSelection();
+    const text = selection?.toString().trim();
+    if (!selection || !text) return;
+    const inside =
+      selection.anchorNode && selection.focusNode &&
+      element.contains(selection.anchorNode) && element.contains(selection.focusNode);
+    const line = lyricsLines[index] ?? "";
+    if (!inside || !line.includes(text)) return;
+    const result = selectedLineIndices.includes(index)
+      ? ({ ok: true, indices: selectedLineIndices } as const)
+      : toggleLine(selectedLineIndices, index, maxSelectedLines);
+    if (!applySelection(result)) return;
+    setLineExcerpts((prev) => ({ ...prev, [index]: text === line.trim() ? line : text }));
+    setSelectionAnchor(index);
+    selection.removeAllRanges();
+  };
+
+  const handleMaxLinesChange = (value: number) => {
+    const max = Math.min(Math.max(value, 1), MAX_SELECTED_LINES_LIMIT);
+    setMaxSelectedLines(max);
+    localStorage.setItem(MAX_LINES_STORAGE_KEY, String(max));
   };
 
   // Apertura / cierre del modal
   const openPreviewModal = () => {
     if (selectedLineIndices.length === 0) {
-      alert("Please select some lyrics lines first.");
-      return;
-    }
-    const sorted = [...selectedLineIndices].sort((a, b) => a - b);
-    if (sorted.length > 1 && !sorted.every((v, i) => i === 0 || v === sorted[i - 1] + 1)) {
-      alert("Please select consecutive lines.");
+      setSelectionNotice("Please select some lyrics lines first.");
       return;
     }
+    setCardText(getSelectedLineContent().join("\n"));
+    setCardSecondary(getSelectedSecondaryContent());
+    setCardCredit(lyricsCredit(lyricsAttribution, lyricsSource, isSynced));
+    showModal(cardStyle, selectedSong!);
+  };
+
+  const showModal = (style: CardStyle, song: SearchResult) => {
     setCoverKey(Date.now());
     setCoverLoaded(false);
-    setSelectedFont(fontOptions[1].value);
-    setSelectedGradient(gradientPresets[0].value);
+    setCoverPalette(null);
+    setExportNotice("");
     setIsModalOpen(true);
+    // El estilo se conserva entre aperturas; la paleta depende de la canción
+    if (style.background.type === "auto") loadCoverPalette(song);
   };
   const closePreviewModal = () => setIsModalOpen(false);
 
-  // Exportar PNG
-  const exportPngFromModal = () => {
+  // "Auto from cover": la paleta se calcula una vez por apertura del modal
+  const loadCoverPalette = async (song = selectedSong) => {
+    const cover = song?.coverUrl ?? song?.thumbnailUrl;
+    if (!cover) {
+      setExportNotice("This song has no cover to take colors from.");
+      setCardStyle((prev) => ({ ...prev, background: defaultCardStyle.background }));
+      return;
+    }
+    setIsExtractingPalette(true);
+    try {
+      setCoverPalette(await extractPalette(cover));
+    } catch (e: unknown) {
+      setExportNotice(e instanceof Error ? e.message : "Could not read cover colors.");
+      setCardStyle((prev) => ({ ...prev, background: defaultCardStyle.background }));
+    } finally {
+      setIsExtractingPalette(false);
+    }
+  };
+
+  const handleCardStyleChange = (style: CardStyle) => {
+    setCardStyle(style);
+    if (style.background.type === "auto" && !coverPalette && !isExtractingPalette) loadCoverPalette();
+  };
+
+  // ---- Biblioteca ----
+
+  const handleToggleFavorite = (song: SearchResult) =>
+    toggleFavorite(song)
+      .then(setFavorites)
+      .catch((e: unknown) => setError(e instanceof Error ? e.message : String(e)));
+
+  const saveQuoteFromModal = () =>
+    runExport(async () => {
+      setQuotes(
+        await saveQuote({
+          song: selectedSong!,
+          lineIndices: selectedLineIndices,
+          lines: cardText.split("\n"),
+          ...(cardSecondary.trim() && { secondaryLines: cardSecondary.split("\n") }),
+          style: cardStyle,
+          credit: cardCredit,
+        })
+      );
+      return "Quote saved to your library.";
+    });
+
+  // Reabre una cita guardada con su texto y estilo tal como se guardaron
+  const openQuote = async (quote: SavedQuote) => {
+    setShowLibrary(false);
+    await handleSelectSong(quote.song);
+    setSelectedLineIndices(quote.lineIndices);
+    setCardStyle(quote.style);
+    setCardText(quote.lines.join("\n"));
+    setCardSecondary(quote.secondaryLines?.join("\n") ?? "");
+    setCardCredit(quote.credit);
+    showModal(quote.style, quote.song);
+  };
+
+  const handleDeleteQuote = (id: string) =>
+    deleteQuote(id)
+      .then(setQuotes)
+      .catch((e: unknown) => setError(e instanceof Error ? e.message : String(e)));
+
+  const handleClearHistory = () =>
+    clearHistory()
+      .then(() => setHistory([]))
+      .catch((e: unknown) => setError(e instanceof Error ? e.message : String(e)));
+
+  const handleExportLibrary = async () => {
+    try {
+      const blob = new Blob([JSON.stringify(await exportLibrary(), null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      downloadDataUrl(url, `lyric-finder-library-${new Date().toISOString().slice(0, 10)}.json`);
+      URL.revokeObjectURL(url);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleImportLibrary = async (file: File) => {
+    setError("");
+    try {
+      const library = await importLibrary(JSON.parse(await file.text()));
+      setHistory(library.history);
+      setFavorites(library.favorites);
+      setQuotes(library.quotes);
+    } catch (e: unknown) {
+      setError(e instanceof SyntaxError ? "The library file is not valid JSON." : e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  // Sin portada en el layout no hay que esperar a que cargue para exportar
+  const isCoverPending =
+    !coverLoaded && !!selectedSong?.thumbnailUrl && layoutShowsCover(cardStyle.layout);
+
+  // Tamaño de la tarjeta según el preset (null = tarjeta natural)
+  const cardSize: CardSize | null =
+    exportPresetId === "custom"
+      ? customSize
+      : exportPresets.find((p) => p.id === exportPresetId)?.size ?? null;
+  // Escala de la vista previa para que quepa en el modal
+  const previewScale = cardSize ? Math.min(400 / cardSize.width, 480 / cardSize.height, 1) : 1;
+
+  const exportFileName = (format: ExportFormat | VideoFormat) =>
+    `${selectedSong!.title.replace(/[^a-z0-9]/gi, "_").toLowerCase()}_selection_${exportPresetId}.${format === "jpeg" ? "jpg" : format}`;
+
+  const renderCard = (format: ExportFormat) => {
     const node = previewRef.current;
-    if (!node) return alert("Error preparing image.");
-    toPng(node, { pixelRatio: 2, backgroundColor: "transparent" })
-      .then((url) => {
-        const link = document.createElement("a");
-        link.download = `${selectedSong!.title
-          .replace(/[^a-z0-9]/gi, "_")
-          .toLowerCase()}_selection.png`;
-        link.href = url;
-        link.click();
-        closePreviewModal();
-      })
-      .catch(() => alert("Failed to generate PNG."));
+    if (!node) throw new Error("Error preparing image.");
+    return renderNode(node, {
+      format,
+      // Los presets ya tienen su tamaño final en píxeles
+      pixelRatio: cardSize ? 1 : 2,
+      width: cardSize?.width,
+      height: cardSize?.height,
+    });
+  };
+
+  const runExport = async (action: () => Promise<string | void>) => {
+    setIsExporting(true);
+    setExportNotice("");
+    try {
+      const notice = await action();
+      if (notice) setExportNotice(notice);
+    } catch (e: unknown) {
+      // El usuario cerró el diálogo de compartir: no es un error
+      if (e instanceof DOMException && e.name === "AbortError") return;
+      setExportNotice(e instanceof Error ? e.message : "Failed to generate image.");
+    } finally {
+      setIsExporting(false);
+    }
   };
 
+  const downloadFromModal = () =>
+    runExport(async () => {
+      downloadDataUrl(await renderCard(exportFormat), exportFileName(exportFormat));
+      closePreviewModal();
+    });
+
+  const copyFromModal = () =>
+    runExport(async () => {
+      await copyPngToClipboard(await dataUrlToBlob(await renderCard("png")));
+      return "Image copied to clipboard.";
+    });
+
+  const copyLinkFromModal = () =>
+    runExport(async () => {
+      const link = buildTrackLink(selectedSong!.id, { lines: selectedLineIndices, style: cardStyle, preview: true });
+      await navigator.clipboard.writeText(window.location.origin + link);
+      return "Link copied to clipboard.";
+    });
+
+  // Tiempos de las líneas de la tarjeta; el texto editado a mano solo se anima si conserva las líneas
+  const cardLineTimes = isSynced ? buildCardLineTimes(selectedLineIndices, syncedLines.map((l) => l.time)) : [];
+  const videoPlan: VideoTimelineResult =
+    cardText.split("\n").length !== cardLineTimes.length
+      ? { ok: false, reason: "The card text no longer matches the selected lines. Reset it to animate." }
+      : buildVideoTimeline(cardLineTimes, syncedLines[selectedLineIndices[selectedLineIndices.length - 1] + 1]?.time);
+
+  // Una imagen de la tarjeta por estado: antes de la primera línea y con cada línea activa
+  const renderKeyframes = async (count: number) => {
+    const frames: ImageBitmap[] = [];
+    try {
+      for (let line = -1; line < count; line++) {
+        setVideoLine(line);
+        // Dos frames: React aplica el estado y el navegador pinta la tarjeta
+        await new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+        frames.push(await createImageBitmap(await dataUrlToBlob(await renderCard("png"))));
+      }
+      return frames;
+    } finally {
+      setVideoLine(null);
+    }
+  };
+
+  const exportVideoFromModal = (format: VideoFormat) =>
+    runExport(async () => {
+      if (!videoPlan.ok) throw new Error(videoPlan.reason);
+      const { timeline } = videoPlan;
+      const keyframes = await renderKeyframes(timeline.cues.length);
+      try {
+        let blob: Blob;
+        if (format === "gif") {
+          blob = new Blob([encodeLyricGif(keyframes, timeline)], { type: "image/gif" });
+        } else {
+          // Mismo reloj que en Playback mode: momento de la canción = tiempo del clip + inicio + desfase
+          const audio =
+            videoWithAudio && selectedSong?.previewUrl
+              ? { url: selectedSong.previewUrl, offset: timeline.start - clipStartMs - playbackOffset }
+              : undefined;
+          setVideoProgress(0);
+          blob = await recordWebm(keyframes, timeline, audio, setVideoProgress);
+        }
+        const url = URL.createObjectURL(blob);
+        downloadDataUrl(url, exportFileName(format));
+        URL.revokeObjectURL(url);
+      } finally {
+        for (const frame of keyframes) frame.close();
+        setVideoProgress(null);
+      }
+    });
+
+  const shareFromModal = () =>
+    runExport(async () => {
+      const blob = await dataUrlToBlob(await renderCard(exportFormat));
+      await shareImage(blob, exportFileName(exportFormat), `${selectedSong!.title} – ${selectedSong!.artist}`);
+    });
+
   return (
     <div className="container mx-auto p-8 min-h-screen flex flex-col items-center">
       <h1 className="text-4xl font-bold mb-4">Lyric Finder</h1>
 
-      {!accessToken ? (
+      {isAuthenticated === null ? (
+        <p className="text-gray-500 mt-8 animate-pulse">Checking session...</p>
+      ) : !isAuthenticated && !isAnonymous ? (
         // Login View
         <div className="w-full max-w-md text-center p-6 bg-gray-100 dark:bg-gray-800 rounded-lg shadow-lg mt-8 animate-fadeIn">
           <p className="text-lg mb-4 text-gray-800 dark:text-gray-200">
@@ -227,10 +1027,22 @@ export default function Home() {
             />
             Login with Spotify
           </button>
+          <button
+            onClick={() => setIsAnonymous(true)}
+            className="mt-4 text-sm text-gray-600 dark:text-gray-400 hover:text-black dark:hover:text-white underline transition-colors duration-200"
+          >
+            Continue without Spotify
+          </button>
           {error && <p className="text-red-500 mt-4">{error}</p>}
         </div>
       ) : (
         <>
+          <button
+            onClick={isAuthenticated ? handleLogout : handleSpotifyLogin}
+            className="self-end -mt-12 mb-4 text-sm text-gray-600 dark:text-gray-400 hover:text-black dark:hover:text-white underline transition-colors duration-200"
+          >
+            {isAuthenticated ? "Log out" : "Log in with Spotify"}
+          </button>
           {(isLoading || isFetchingLyrics) && (
             <p className="text-blue-500 mb-4 text-center animate-pulse">
               {isLoading ? "Searching for songs..." : "Loading lyrics..."}
@@ -242,27 +1054,175 @@ export default function Home() {
             <div className="flex items-center border-b border-teal-500 py-2 transition-colors duration-200 ease-in-out">
               <input
                 type="text"
-                placeholder="Search for a song or artist..."
+                placeholder={searchMode === "lyrics" ? "Type a line you remember..." : "Search for a song or artist..."}
                 className="flex-grow bg-transparent border-none py-1 px-2 text-gray-700 dark:text-gray-300 focus:outline-none"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                disabled={isLoading || isFetchingLyrics}
               />
+              <button
+                type="button"
+                onClick={() => setShowFilters((v) => !v)}
+                className="flex-shrink-0 mr-2 text-sm text-teal-600 dark:text-teal-400 hover:underline"
+              >
+                Filters{Object.values(searchFilters).some((v) => v.trim()) ? " •" : ""}
+              </button>
               <button
                 type="submit"
-                disabled={!searchQuery.trim() || isLoading || isFetchingLyrics}
+                disabled={!hasSearchInput || isFetchingLyrics}
                 className="flex-shrink-0 bg-teal-500 hover:bg-teal-700 border-4 border-teal-500 hover:border-teal-700 text-white py-1 px-2 rounded disabled:opacity-50 transition-colors duration-200 ease-in-out transform hover:scale-105"
               >
                 {(isLoading && !isFetchingLyrics) ? "Searching..." : "Search"}
               </button>
             </div>
+            <div className="mt-2 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              Search by:
+              {([
+                ["tracks", "Song or artist"],
+                ["lyrics", "Lyrics"],
+              ] as const).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setSearchMode(mode)}
+                  className={`px-2 py-0.5 rounded ${searchMode === mode ? "bg-teal-500 text-white" : "bg-gray-200 dark:bg-gray-700"}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {showFilters && (
+              <div className="mt-2 grid grid-cols-2 gap-2 text-sm animate-fadeIn">
+                {([
+                  ["artist", "Artist", "artist:"],
+                  ["album", "Album", "album:"],
+                  ["year", "Year", "1999 or 1990-1999"],
+                  ["market", "Market", "US, DE… (Spotify only)"],
+                ] as const).map(([key, label, placeholder]) => (
+                  <label key={key} className="flex flex-col gap-1 text-gray-700 dark:text-gray-300">
+                    {label}
+                    <input
+                      value={searchFilters[key]}
+                      placeholder={placeholder}
+                      maxLength={key === "market" ? 2 : undefined}
+                      onChange={(e) =>
+                        setSearchFilters((prev) => ({
+                          ...prev,
+                          [key]: key === "market" ? e.target.value.toUpperCase() : e.target.value,
+                        }))
+                      }
+                      className="p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700"
+                    />
+                  </label>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setSearchFilters(emptyFilters)}
+                  className="col-span-2 justify-self-end text-xs text-gray-600 dark:text-gray-400 hover:underline"
+                >
+                  Clear filters
+                </button>
+              </div>
+            )}
+            {!showResults && searchResults.length > 0 && (
+              <button
+                type="button"
+                onClick={() => setShowResults(true)}
+                className="mt-2 text-sm text-teal-600 dark:text-teal-400 hover:underline"
+              >
+                Back to search results
+              </button>
+            )}
           </form>
 
+          {/* Manual metadata entry */}
+          <div className="w-full max-w-md -mt-6 mb-8">
+            <button
+              onClick={() => setShowManualForm((v) => !v)}
+              className="text-sm text-teal-600 dark:text-teal-400 hover:underline mb-2"
+            >
+              {showManualForm ? "Hide manual entry" : "Can't find it? Enter song details manually"}
+            </button>
+            <button
+              onClick={() => setShowLibrary((v) => !v)}
+              className="float-right text-sm text-teal-600 dark:text-teal-400 hover:underline mb-2"
+            >
+              {showLibrary ? "Hide library" : `My library (${quotes.length})`}
+            </button>
+            <div className="clear-both flex gap-4 text-sm mb-2">
+              {isAuthenticated && (
+                <>
+                  <button
+                    onClick={toggleFollowing}
+                    className={`hover:underline ${isFollowing ? "text-green-600 dark:text-green-400 font-semibold" : "text-teal-600 dark:text-teal-400"}`}
+                  >
+                    {isFollowing ? "● Following Spotify (stop)" : "Now playing"}
+                  </button>
+                  <button
+                    onClick={() => setShowSpotifyLibrary((v) => !v)}
+                    className="text-teal-600 dark:text-teal-400 hover:underline"
+                  >
+                    {showSpotifyLibrary ? "Hide my Spotify" : "My Spotify"}
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => setShowBatch((v) => !v)}
+                className="text-teal-600 dark:text-teal-400 hover:underline"
+              >
+                {showBatch ? "Hide batch lookup" : "Batch lookup"}
+              </button>
+            </div>
+            {isFollowing && nowPlaying && !nowPlaying.track && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">Nothing is playing on Spotify right now.</p>
+            )}
+            {showManualForm && (
+              <ManualTrackForm
+                disabled={isLoading || isFetchingLyrics}
+                onSubmit={(song) => {
+                  setShowManualForm(false);
+                  handleSelectSong(song);
+                }}
+              />
+            )}
+          </div>
+
+          {showSpotifyLibrary && isAuthenticated && (
+            <SpotifyLibrary
+              fetchJson={fetchApi}
+              onSelectSong={(song) => {
+                setShowSpotifyLibrary(false);
+                setIsFollowing(false);
+                handleSelectSong(song);
+              }}
+            />
+          )}
+
+          {/* El lote sigue abierto al abrir una de sus pistas, para volver al informe */}
+          {showBatch && <BatchLookup onSelectSong={handleSelectSong} />}
+
+          {showLibrary && (
+            <LibraryPanel
+              history={history}
+              favorites={favorites}
+              quotes={quotes}
+              onOpenSong={(song) => {
+                setShowLibrary(false);
+                handleSelectSong(song);
+              }}
+              onOpenQuote={openQuote}
+              onDeleteQuote={handleDeleteQuote}
+              onToggleFavorite={handleToggleFavorite}
+              onClearHistory={handleClearHistory}
+              onExport={handleExportLibrary}
+              onImport={handleImportLibrary}
+            />
+          )}
+
           {/* Error */}
           {error && <p className="text-red-500 mb-4 text-center animate-shake">{error}</p>}
 
           {/* Search Results */}
-          {!selectedSong && !isFetchingLyrics && searchResults.length > 0 && (
+          {showResults && !isFetchingLyrics && searchResults.length > 0 && (
             <div className="w-full max-w-lg mb-8 animate-fadeIn">
               <h2 className="text-2xl font-semibold mb-4 text-center">Search Results</h2>
               <ul className="space-y-3">
@@ -281,20 +1241,159 @@ export default function Home() {
                         className="rounded mr-4 object-cover"
                       />
                     )}
-                    <div>
-                      <p className="font-semibold">{song.title}</p>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-semibold">
+                        {song.title}
+                        {song.explicit && (
+                          <span className="ml-2 px-1 rounded bg-gray-300 dark:bg-gray-600 text-xs align-middle" title="Explicit">
+                            E
+                          </span>
+                        )}
+                      </p>
                       <p className="text-sm text-gray-600 dark:text-gray-400">
                         {song.artist} – {song.album}
                       </p>
+                      {song.snippet && (
+                        <p className="text-sm italic text-gray-500 dark:text-gray-400 truncate">
+                          “<HighlightedText text={song.snippet} ranges={findRanges(song.snippet, snippetTerms(searchQuery))} />”
+                        </p>
+                      )}
+                    </div>
+                    <div className="ml-4 flex flex-col items-end gap-1 text-xs whitespace-nowrap">
+                      {song.duration > 0 && <span className="font-mono text-gray-500">{formatTimestamp(song.duration)}</span>}
+                      {song.lyrics && (
+                        <span className={`px-1.5 rounded ${availabilityClasses[song.lyrics]}`}>
+                          {availabilityLabels[song.lyrics]}
+                        </span>
+                      )}
                     </div>
                   </li>
                 ))}
               </ul>
+              {searchPage && searchPage.total > searchPage.limit && (
+                <div className="mt-4 flex items-center justify-between text-sm">
+                  <button
+                    onClick={() => runSearch(Math.max(searchPage.offset - searchPage.limit, 0))}
+                    disabled={isLoading || searchPage.offset === 0}
+                    className="px-3 py-1 rounded bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
+                  >
+                    Previous
+                  </button>
+                  <span className="text-gray-600 dark:text-gray-400">
+                    {searchPage.offset + 1}–{searchPage.offset + searchResults.length} of {searchPage.total}
+                  </span>
+                  <button
+                    onClick={() => runSearch(searchPage.offset + searchPage.limit)}
+                    disabled={isLoading || searchPage.offset + searchPage.limit >= searchPage.total}
+                    className="px-3 py-1 rounded bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
+                  >
+                    Next
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Lyrics match info / alternative candidates */}
+          {selectedSong && !isFetchingLyrics && (lyricsMatch || lyricsCandidates.length > 0) && (
+            <div className="w-full max-w-2xl mb-4 text-sm text-gray-600 dark:text-gray-400 animate-fadeIn">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                {lyricsMatch ? (
+                  <span>
+                    Matched via <strong>{lyricsMatch.strategy}</strong> ({Math.round(lyricsMatch.confidence * 100)}% confidence)
+                    {" – "}
+                    {lyricsMatch.trackName} · {lyricsMatch.artistName}
+                  </span>
+                ) : (
+                  <span>No confident match found. Did you mean one of these?</span>
+                )}
+                {lyricsStatus && lyricsStatus !== "none" && (
+                  <span className={`px-1.5 rounded text-xs ${availabilityClasses[lyricsStatus]}`}>
+                    {lyricsStatus === "instrumental" ? "Instrumental track" : availabilityLabels[lyricsStatus]}
+                  </span>
+                )}
+                {lyricsMatch && lyricsCandidates.length > 0 && (
+                  <button
+                    onClick={() => setShowCandidates((v) => !v)}
+                    className="text-teal-600 dark:text-teal-400 hover:underline"
+                  >
+                    {showCandidates ? "Hide alternatives" : "Wrong lyrics? Pick another"}
+                  </button>
+                )}
+              </div>
+              {lyricsQuality?.mismatch && (
+                <div className="mt-2 p-2 rounded border border-yellow-300 bg-yellow-50 text-yellow-800 dark:border-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-200">
+                  <strong>Lyrics may be for a different version.</strong> {lyricsQuality.warnings.join(" ")}
+                </div>
+              )}
+              {(showCandidates || !lyricsMatch) && lyricsCandidates.length > 0 && (
+                <ul className="mt-2 space-y-1">
+                  {lyricsCandidates.map((c) => (
+                    <li
+                      key={`${c.source}:${c.id}`}
+                      onClick={() => handlePickCandidate(c)}
+                      className="flex justify-between gap-4 p-2 border rounded cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors duration-150"
+                    >
+                      <span>
+                        <span className="font-semibold">{c.trackName}</span> – {c.artistName}
+                        {c.albumName && <span className="opacity-70"> ({c.albumName})</span>}
+                      </span>
+                      <span className="whitespace-nowrap font-mono text-xs">
+                        {formatTimestamp(c.duration * 1000)} · {c.hasSynced ? "synced" : "plain"} · {Math.round(c.confidence * 100)}%
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {/* Lyrics editor / sync */}
+          {selectedSong && showSyncEditor && (
+            <SyncEditor
+              key={`${selectedSong.id}-${lyrics.length}`}
+              song={selectedSong}
+              initialText={lyricsLines.join("\n")}
+              initialSynced={isSynced ? syncedLines : []}
+              fetchJson={fetchApi}
+              canPublish={isAuthenticated}
+              onClose={() => setShowSyncEditor(false)}
+              onPublished={() => fetchLyrics(selectedSong)}
+            />
+          )}
+
+          {/* Instrumental */}
+          {selectedSong && !lyrics && lyricsStatus === "instrumental" && !isFetchingLyrics && !showSyncEditor && (
+            <div className="w-full max-w-2xl mb-8 p-6 border rounded bg-white dark:bg-gray-900 text-center animate-fadeIn">
+              <span className={`inline-block mb-3 px-3 py-1 rounded-full text-sm font-semibold ${availabilityClasses.instrumental}`}>
+                ♪ Instrumental track
+              </span>
+              <p className="text-gray-600 dark:text-gray-400">
+                {selectedSong.title} has no lyrics.{" "}
+                <button onClick={() => setShowSyncEditor(true)} className="text-teal-600 dark:text-teal-400 hover:underline">
+                  Has vocals after all? Add lyrics
+                </button>
+              </p>
+            </div>
+          )}
+
+          {/* No lyrics */}
+          {selectedSong && !lyrics && lyricsStatus !== "instrumental" && lyricsMessage && !isFetchingLyrics && !showSyncEditor && (
+            <div className="w-full max-w-2xl mb-8 p-6 border rounded bg-white dark:bg-gray-900 text-center animate-fadeIn">
+              <p className="mb-3 text-gray-600 dark:text-gray-400">
+                {lyricsMessage} You can add them for {selectedSong.title} and share them on LRCLIB.
+              </p>
+              <button
+                onClick={() => setShowSyncEditor(true)}
+                className="px-4 py-2 rounded bg-teal-500 hover:bg-teal-700 text-white transition-colors duration-200"
+              >
+                Add lyrics
+              </button>
             </div>
           )}
 
           {/* Lyrics Display */}
-          {selectedSong && lyrics && (
+          {selectedSong && lyrics && !showSyncEditor && (
             <div className="w-full max-w-2xl mb-8 p-6 border rounded shadow-md bg-white dark:bg-gray-900 animate-fadeInUp">
               <div className="flex items-center mb-6 space-x-4 justify-center">
                 {selectedSong.thumbnailUrl && (
@@ -307,23 +1406,201 @@ export default function Home() {
                   />
                 )}
                 <div>
-                  <h2 className="text-2xl font-semibold">{selectedSong.title}</h2>
+                  <h2 className="text-2xl font-semibold">
+                    {selectedSong.title}
+                    <button
+                      onClick={() => handleToggleFavorite(selectedSong)}
+                      className="ml-2 text-yellow-500 align-middle"
+                      aria-label={favorites.some((f) => f.song.id === selectedSong.id) ? "Remove from favorites" : "Add to favorites"}
+                    >
+                      {favorites.some((f) => f.song.id === selectedSong.id) ? "★" : "☆"}
+                    </button>
+                  </h2>
                   <p className="text-lg text-gray-600 dark:text-gray-400">
                     {selectedSong.artist} – {selectedSong.album}
                   </p>
                 </div>
               </div>
-              <div className="lyrics-container overflow-y-auto max-h-96 bg-gray-50 dark:bg-gray-800 p-4 rounded border font-mono text-sm animate-fadeIn">
+              {selectedSong.previewUrl && (
+                <div className="mb-4 flex flex-wrap items-center justify-center gap-2 text-sm">
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={isPlaybackMode}
+                      onChange={(e) => {
+                        // Al salir se pausa pero se conserva el desfase ajustado
+                        if (!e.target.checked) audioRef.current?.pause();
+                        setIsPlaybackMode(e.target.checked);
+                      }}
+                    />
+                    Playback mode
+                  </label>
+                  {isPlaybackMode && (
+                    <>
+                      <button
+                        onClick={togglePlayback}
+                        className="px-3 py-1 rounded bg-green-500 hover:bg-green-600 text-white transition-colors duration-200"
+                      >
+                        {isPlaying ? "Pause" : "Play preview"}
+                      </button>
+                      <span className="font-mono text-gray-600 dark:text-gray-400">
+                        {formatTimestamp(playbackTime)} / {formatTimestamp(clipDuration)}
+                      </span>
+                      {isSynced && (
+                        <label className="flex items-center gap-1" title="Where the preview starts in the song">
+                          Clip starts at
+                          <input
+                            value={clipStart}
+                            onChange={(e) => setClipStart(e.target.value)}
+                            className="w-16 p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 font-mono"
+                            aria-label="Clip start (m:ss)"
+                          />
+                        </label>
+                      )}
+                      {isSynced ? (
+                        <span className="flex items-center gap-1">
+                          <button
+                            onClick={() => setPlaybackOffset((o) => o - OFFSET_STEP_MS)}
+                            className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600"
+                            aria-label="Lyrics earlier"
+                          >
+                            −
+                          </button>
+                          <span className="font-mono w-20 text-center">
+                            {playbackOffset >= 0 ? "+" : ""}
+                            {(playbackOffset / 1000).toFixed(2)}s
+                          </span>
+                          <button
+                            onClick={() => setPlaybackOffset((o) => o + OFFSET_STEP_MS)}
+                            className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600"
+                            aria-label="Lyrics later"
+                          >
+                            +
+                          </button>
+                        </span>
+                      ) : (
+                        <span className="text-gray-500">No synced lyrics for this song.</span>
+                      )}
+                    </>
+                  )}
+                  <audio
+                    ref={audioRef}
+                    src={selectedSong.previewUrl}
+                    preload="none"
+                    onPlay={() => setIsPlaying(true)}
+                    onPause={() => setIsPlaying(false)}
+                    onEnded={() => setIsPlaying(false)}
+                    onSeeked={(e) => setPlaybackTime(e.currentTarget.currentTime * 1000)}
+                    onLoadedMetadata={(e) => {
+                      if (Number.isFinite(e.currentTarget.duration)) setClipDuration(e.currentTarget.duration * 1000);
+                    }}
+                  />
+                </div>
+              )}
+              {isFollowing && nowPlaying?.track?.id === selectedSong.id && (
+                <p className="mb-4 text-center text-sm text-green-600 dark:text-green-400 font-mono">
+                  {nowPlaying.isPlaying ? "▶" : "❚❚"} {formatTimestamp(playbackTime)} / {formatTimestamp(selectedSong.duration)}
+                  {!isSynced && <span className="ml-2 font-sans text-gray-500">(no synced lyrics to follow)</span>}
+                </p>
+              )}
+              <div className="mb-2 flex flex-wrap items-center justify-end gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <span className="mr-auto flex items-center gap-1">
+                  Download:
+                  {lyricsExportFormats.map((f) =>
+                    f.synced && !isSynced ? (
+                      <span key={f.id} className="px-1 text-gray-400 dark:text-gray-500" title="Needs synced lyrics">
+                        {f.name}
+                      </span>
+                    ) : (
+                      <a key={f.id} href={lyricsExportUrl(f.id)} download className="px-1 text-blue-600 dark:text-blue-400 hover:underline">
+                        {f.name}
+                      </a>
+                    )
+                  )}
+                </span>
+                <button
+                  onClick={() => {
+                    audioRef.current?.pause();
+                    setShowSyncEditor(true);
+                  }}
+                  className="text-teal-600 dark:text-teal-400 hover:underline"
+                >
+                  {isSynced ? "Edit lyrics" : "Edit / sync lyrics"}
+                </button>
+                {translationNotice && <span className="text-gray-500 dark:text-gray-400">{translationNotice}</span>}
+                {translation && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">via {translation.attribution}</span>
+                )}
+                <label htmlFor="translation-select">Parallel text:</label>
+                <select
+                  id="translation-select"
+                  value={translationTarget}
+                  onChange={(e) => handleTranslationTargetChange(e.target.value)}
+                  className="p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700"
+                >
+                  {translationTargets.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <LyricsFind
+                query={findQuery}
+                current={currentFind ? findMatches.indexOf(currentFind) : 0}
+                total={findMatches.length}
+                onQueryChange={(query) => {
+                  setFindQuery(query);
+                  setFindIndex(0);
+                }}
+                onStep={(direction) => setFindIndex((i) => (i + direction + findMatches.length) % findMatches.length)}
+              />
+              <div
+                ref={lyricsContainerRef}
+                className="lyrics-container relative overflow-y-auto max-h-96 bg-gray-50 dark:bg-gray-800 p-4 rounded border font-mono text-sm animate-fadeIn"
+              >
                 {lyricsLines.map((line, idx) => (
                   <p
                     key={idx}
-                    onClick={() => handleLineSelect(idx)}
+                    data-line-index={idx}
+                    onClick={(e) =>
+                      isPlaybackMode && isSynced ? seekToLine(idx) : handleLineSelect(idx, e.shiftKey)
+                    }
+                    // Evita que shift-clic extienda la selección de texto del navegador
+                    onMouseDown={(e) => e.shiftKey && e.preventDefault()}
+                    onMouseUp={(e) => {
+                      if (!(isPlaybackMode && isSynced)) handleLineMouseUp(idx, e.currentTarget);
+                    }}
                     className={`whitespace-pre-wrap cursor-pointer p-1 rounded transition-colors duration-150 ${selectedLineIndices.includes(idx)
                       ? "bg-teal-200 dark:bg-teal-700 font-semibold"
-                      : "hover:bg-gray-200 dark:hover:bg-gray-600"
-                      }`}
+                      : idx === activeLineIndex
+                        ? "bg-yellow-200 dark:bg-yellow-700 font-semibold scale-105"
+                        : "hover:bg-gray-200 dark:hover:bg-gray-600"
+                      } ${activeLineIndex >= 0 && idx !== activeLineIndex ? "opacity-60" : ""}`}
                   >
-                    {line.trim() === "" ? "\u00A0" : line}
+                    {isSynced && syncedLines[idx] && (
+                      <span className="mr-3 text-xs text-gray-400 dark:text-gray-500 select-none">
+                        {formatTimestamp(syncedLines[idx].time)}
+                      </span>
+                    )}
+                    {line.trim() === "" ? "\u00A0" : lineExcerpts[idx] && lineExcerpts[idx] !== line ? (
+                      <>
+                        {line.slice(0, line.indexOf(lineExcerpts[idx]))}
+                        <mark className="bg-teal-400 dark:bg-teal-500 rounded px-0.5">{lineExcerpts[idx]}</mark>
+                        {line.slice(line.indexOf(lineExcerpts[idx]) + lineExcerpts[idx].length)}
+                      </>
+                    ) : (
+                      <HighlightedText
+                        text={line}
+                        ranges={findLineRanges[idx]}
+                        activeRange={currentFind?.line === idx ? currentFind.range : undefined}
+                      />
+                    )}
+                    {translation?.lines[idx] && (
+                      <span className="block text-xs font-sans text-gray-500 dark:text-gray-400 select-none">
+                        {translation.lines[idx]}
+                      </span>
+                    )}
                   </p>
                 ))}
               </div>
@@ -331,14 +1608,38 @@ export default function Home() {
           )}
 
           {/* Create Share Image */}
-          {selectedLineIndices.length > 0 && (
+          {selectedSong && lyrics && (
             <div className="text-center mb-8 animate-fadeIn">
-              <button
-                onClick={openPreviewModal}
-                className="mt-6 bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded transition-transform duration-200 ease-in-out hover:scale-105"
-              >
-                Create Share Image ({selectedLineIndices.length}/{MAX_SELECTED_LINES})
-              </button>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Click to add or remove lines, shift-click to select a range, or highlight part of a line to use just that.
+              </p>
+              {selectionNotice && <p className="text-red-500 text-sm mt-2 animate-shake">{selectionNotice}</p>}
+              <div className="mt-4 flex items-center justify-center gap-4">
+                {selectedLineIndices.length > 0 && (
+                  <>
+                    <button
+                      onClick={openPreviewModal}
+                      className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded transition-transform duration-200 ease-in-out hover:scale-105"
+                    >
+                      Create Share Image ({selectedLineIndices.length}/{maxSelectedLines})
+                    </button>
+                    <button onClick={clearSelection} className="text-sm text-gray-600 dark:text-gray-400 hover:underline">
+                      Clear
+                    </button>
+                  </>
+                )}
+                <label className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400">
+                  Max lines
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_SELECTED_LINES_LIMIT}
+                    value={maxSelectedLines}
+                    onChange={(e) => handleMaxLinesChange(parseInt(e.target.value, 10) || 1)}
+                    className="w-14 p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700"
+                  />
+                </label>
+              </div>
             </div>
           )}
 
@@ -353,70 +1654,188 @@ export default function Home() {
                 >
                   &times;
                 </button>
-                <div
-                  ref={previewRef}
-                  className={`p-6 text-white rounded-lg overflow-hidden ${selectedGradient}`}
-                  style={{ fontFamily: selectedFont, fontSize: "16px", lineHeight: 1.6 }}
-                >
-                  {selectedSong.thumbnailUrl && (
-                    <Image
-                      src={`${selectedSong.thumbnailUrl}?_=${coverKey}`}
-                      alt={`${selectedSong.title} cover`}
-                      width={80}
-                      height={80}
-                      className="rounded object-cover float-right ml-4 mb-2 border-2 border-white/50 shadow-lg transition-transform duration-200 ease-in-out hover:scale-105"
-                      onLoadingComplete={() => setCoverLoaded(true)}
-                    />
-                  )}
-                  <h3 className="text-lg font-bold mb-1 pb-1 border-b border-white/30">
-                    {selectedSong.title}
-                  </h3>
-                  <p className="text-sm mb-4 opacity-80">{selectedSong.artist}</p>
-                  <div className="clear-both pt-2">
-                    {getSelectedLineContent().map((line, i) => (
-                      <p key={i} className="mb-1">{line || "\u00A0"}</p>
-                    ))}
+                <div className="flex justify-center bg-gray-100 dark:bg-gray-950 p-2">
+                  <div
+                    className="overflow-hidden"
+                    style={cardSize ? { width: cardSize.width * previewScale, height: cardSize.height * previewScale } : { width: "100%" }}
+                  >
+                    <div style={cardSize ? { transform: `scale(${previewScale})`, transformOrigin: "top left" } : undefined}>
+                      <ShareCard
+                        ref={previewRef}
+                        song={selectedSong}
+                        lines={cardText.split("\n")}
+                        secondaryLines={cardSecondary ? cardSecondary.split("\n") : undefined}
+                        style={cardStyle}
+                        palette={coverPalette}
+                        credit={cardCredit}
+                        size={cardSize}
+                        coverSrc={
+                          selectedSong.thumbnailUrl &&
+                          `${(cardSize && selectedSong.coverUrl) || selectedSong.thumbnailUrl}?_=${coverKey}`
+                        }
+                        onCoverLoad={() => setCoverLoaded(true)}
+                        activeLine={videoLine}
+                        lineEffect={lineEffect}
+                      />
+                    </div>
                   </div>
-                  <p className="mt-4 text-xs opacity-60 text-right clear-both">
-                    Lyrics via {lyricsSource || "Genius"}{isSynced ? ", Synced" : ""}
-                  </p>
                 </div>
-                <div className="p-4 bg-gray-50 dark:bg-gray-800 border-t border-b grid grid-cols-2 gap-4">
+                <div className="p-4 bg-gray-50 dark:bg-gray-800 border-t">
+                  <div className="flex items-center justify-between mb-1">
+                    <label htmlFor="card-text" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Card text:
+                    </label>
+                    <button
+                      onClick={() => {
+                        setCardText(getSelectedLineContent().join("\n"));
+                        setCardSecondary(getSelectedSecondaryContent());
+                      }}
+                      className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      Reset
+                    </button>
+                  </div>
+                  <textarea
+                    id="card-text"
+                    value={cardText}
+                    onChange={(e) => setCardText(e.target.value)}
+                    rows={Math.min(Math.max(cardText.split("\n").length, 2), 8)}
+                    className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                  {cardSecondary && (
+                    <>
+                      <label htmlFor="card-secondary" className="block mt-2 mb-1 text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Translation (one per card line):
+                      </label>
+                      <textarea
+                        id="card-secondary"
+                        value={cardSecondary}
+                        onChange={(e) => setCardSecondary(e.target.value)}
+                        rows={Math.min(Math.max(cardSecondary.split("\n").length, 2), 8)}
+                        className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      />
+                    </>
+                  )}
+                </div>
+                <CardEditor
+                  style={cardStyle}
+                  onChange={handleCardStyleChange}
+                  palette={coverPalette}
+                  isExtractingPalette={isExtractingPalette}
+                />
+                <div className="p-4 bg-gray-50 dark:bg-gray-800 border-b grid grid-cols-2 gap-4">
                   <div>
-                    <label htmlFor="font-select" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                      Font:
+                    <label htmlFor="preset-select" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Size:
                     </label>
                     <select
-                      id="font-select"
-                      value={selectedFont}
-                      onChange={(e) => setSelectedFont(e.target.value)}
+                      id="preset-select"
+                      value={exportPresetId}
+                      onChange={(e) => {
+                        setExportPresetId(e.target.value);
+                        setCoverLoaded(false);
+                        setCoverKey(Date.now());
+                      }}
                       className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 transition-colors duration-200 ease-in-out"
                     >
-                      {fontOptions.map((f) => (
-                        <option key={f.value} value={f.value} style={{ fontFamily: f.value }}>
-                          {f.name}
+                      {exportPresets.map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.name}
                         </option>
                       ))}
                     </select>
                   </div>
                   <div>
-                    <label htmlFor="gradient-select" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                      Gradient:
+                    <label htmlFor="format-select" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Format:
                     </label>
                     <select
-                      id="gradient-select"
-                      value={selectedGradient}
-                      onChange={(e) => setSelectedGradient(e.target.value)}
+                      id="format-select"
+                      value={exportFormat}
+                      onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
                       className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 transition-colors duration-200 ease-in-out"
                     >
-                      {gradientPresets.map((g) => (
-                        <option key={g.name} value={g.value}>
-                          {g.name}
+                      {exportFormats.map((f) => (
+                        <option key={f.id} value={f.id}>
+                          {f.name}
                         </option>
                       ))}
                     </select>
                   </div>
+                  {exportPresetId === "custom" && (
+                    <div className="col-span-2 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      {(["width", "height"] as const).map((dim) => (
+                        <label key={dim} className="flex items-center gap-1">
+                          {dim === "width" ? "W" : "H"}
+                          <input
+                            type="number"
+                            min={MIN_CUSTOM_SIZE}
+                            max={MAX_CUSTOM_SIZE}
+                            value={customSize[dim]}
+                            onChange={(e) => {
+                              const value = parseInt(e.target.value, 10);
+                              if (Number.isNaN(value)) return;
+                              setCustomSize((prev) => ({
+                                ...prev,
+                                [dim]: Math.min(Math.max(value, MIN_CUSTOM_SIZE), MAX_CUSTOM_SIZE),
+                              }));
+                            }}
+                            className="w-24 p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700"
+                          />
+                        </label>
+                      ))}
+                      <span>px</span>
+                    </div>
+                  )}
                 </div>
+                {isSynced && (
+                  <div className="p-4 bg-gray-50 dark:bg-gray-800 border-b text-sm text-gray-700 dark:text-gray-300">
+                    <div className="flex flex-wrap items-center gap-3">
+                      <span className="font-medium">Animated:</span>
+                      <select
+                        value={lineEffect}
+                        onChange={(e) => setLineEffect(e.target.value as LineEffect)}
+                        aria-label="Line animation"
+                        className="p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700"
+                      >
+                        <option value="reveal">Reveal lines</option>
+                        <option value="highlight">Highlight lines</option>
+                      </select>
+                      {selectedSong.previewUrl && (
+                        <label className="flex items-center gap-1">
+                          <input type="checkbox" checked={videoWithAudio} onChange={(e) => setVideoWithAudio(e.target.checked)} />
+                          Preview audio
+                        </label>
+                      )}
+                      <span className="ml-auto flex gap-2">
+                        <button
+                          onClick={() => exportVideoFromModal("webm")}
+                          disabled={isExporting || isCoverPending || !videoPlan.ok || !canRecordWebm()}
+                          title={canRecordWebm() ? undefined : "This browser can't record WebM video"}
+                          className="px-3 py-1 rounded bg-purple-500 hover:bg-purple-600 text-white disabled:opacity-50"
+                        >
+                          WebM
+                        </button>
+                        <button
+                          onClick={() => exportVideoFromModal("gif")}
+                          disabled={isExporting || isCoverPending || !videoPlan.ok}
+                          className="px-3 py-1 rounded bg-purple-500 hover:bg-purple-600 text-white disabled:opacity-50"
+                        >
+                          GIF
+                        </button>
+                      </span>
+                    </div>
+                    {!videoPlan.ok && <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">{videoPlan.reason}</p>}
+                    {videoProgress !== null && (
+                      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                        Recording… {Math.round(videoProgress * 100)}% (keep this tab visible, the clip records in real time)
+                      </p>
+                    )}
+                  </div>
+                )}
+                {exportNotice && (
+                  <p className="px-4 pt-3 text-sm text-center text-gray-700 dark:text-gray-300">{exportNotice}</p>
+                )}
                 <div className="p-4 bg-gray-100 dark:bg-gray-800 rounded-b-lg flex justify-end space-x-3">
                   <button
                     onClick={closePreviewModal}
@@ -425,14 +1844,46 @@ export default function Home() {
                     Cancel
                   </button>
                   <button
-                    onClick={exportPngFromModal}
-                    disabled={!coverLoaded && !!selectedSong.thumbnailUrl}
-                    className={`px-4 py-2 rounded text-white transition-transform duration-200 ease-in-out ${coverLoaded
+                    onClick={saveQuoteFromModal}
+                    disabled={isExporting || !cardText.trim()}
+                    className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-500 disabled:opacity-50 transition-colors duration-200 ease-in-out"
+                  >
+                    Save
+                  </button>
+                  {isSpotifyTrackId(selectedSong.id) && (
+                    <button
+                      onClick={copyLinkFromModal}
+                      disabled={isExporting}
+                      className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-500 disabled:opacity-50 transition-colors duration-200 ease-in-out"
+                    >
+                      Link
+                    </button>
+                  )}
+                  <button
+                    onClick={copyFromModal}
+                    disabled={isExporting || isCoverPending}
+                    className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-500 disabled:opacity-50 transition-colors duration-200 ease-in-out"
+                  >
+                    Copy
+                  </button>
+                  {canShareFiles() && (
+                    <button
+                      onClick={shareFromModal}
+                      disabled={isExporting || isCoverPending}
+                      className="px-4 py-2 rounded bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50 transition-colors duration-200 ease-in-out"
+                    >
+                      Share
+                    </button>
+                  )}
+                  <button
+                    onClick={downloadFromModal}
+                    disabled={isExporting || isCoverPending}
+                    className={`px-4 py-2 rounded text-white transition-transform duration-200 ease-in-out ${!isCoverPending
                       ? "bg-green-500 hover:bg-green-600 transform hover:scale-105"
                       : "bg-gray-400 cursor-not-allowed"
                       }`}
                   >
-                    Export as PNG
+                    {isExporting ? "Exporting..." : `Download ${exportFormats.find((f) => f.id === exportFormat)?.name}`}
                   </button>
                 </div>
               </div>
@@ -0,0 +1,68 @@
+import type { Metadata } from "next";
+import Home from "@/app/page";
+import type { SearchResult } from "@/lib/api/types";
+import { encodeCardStyle, formatLineRanges, isSpotifyTrackId, parseTrackLink } from "@/lib/deepLink";
+import { getLyrics } from "@/lib/lyrics";
+import { buildCardLines, lyricsDisplayLines } from "@/lib/selection";
+import { getTrackPreview } from "@/lib/spotify";
+
+interface TrackPageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+// Líneas enlazadas que existen en la letra y su texto para la descripción OG; null si no hay letra
+async function linkedLines(track: SearchResult, lines: number[]): Promise<{ indices: number[]; text: string[] } | null> {
+  if (!lines.length) return null;
+  const { body } = await getLyrics({
+    trackName: track.title,
+    artistName: track.artist,
+    albumName: track.album || undefined,
+    duration: track.duration > 0 ? track.duration : undefined,
+    refresh: false,
+  });
+  const all = lyricsDisplayLines(body);
+  if (!all) return null;
+  const indices = lines.filter((i) => i < all.length);
+  const text = buildCardLines(indices, all).filter((l) => l.trim());
+  return text.length ? { indices, text } : null;
+}
+
+// Open Graph del enlace: título y, si el enlace trae líneas, la cita como descripción e imagen
+export async function generateMetadata({ params, searchParams }: TrackPageProps): Promise<Metadata> {
+  const { id } = await params;
+  if (!isSpotifyTrackId(id)) return {};
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(await searchParams)) {
+    if (typeof value === "string") search.set(key, value);
+  }
+  const link = parseTrackLink(`/track/${id}`, search);
+
+  const track = await getTrackPreview(id).catch(() => null);
+  if (!track || !link) return {};
+  const quote = await linkedLines(track, link.lines).catch(() => null);
+
+  const title = `${track.title} – ${track.artist}`;
+  const description = quote ? `“${quote.text.join(" / ")}”` : `Lyrics for ${title}${track.album ? ` from ${track.album}` : ""}.`;
+  // Con cita, la propia tarjeta renderizada en el servidor; si no, la portada. Los parámetros
+  // salen del enlace ya interpretado: /api/v1/card rechaza lo que parseTrackLink descarta
+  const cardParams = new URLSearchParams({ trackId: id, preset: "twitter" });
+  if (quote) cardParams.set("lines", formatLineRanges(quote.indices));
+  if (link.style) cardParams.set("style", encodeCardStyle(link.style));
+  const images = quote
+    ? [{ url: `/api/v1/card?${cardParams}`, width: 1200, height: 675, alt: title }]
+    : track.coverUrl
+      ? [{ url: track.coverUrl, alt: `${track.title} cover` }]
+      : undefined;
+  return {
+    title: `${title} | Lyric Finder`,
+    description,
+    openGraph: { title, description, type: "music.song", siteName: "Lyric Finder", images },
+    twitter: { card: images ? "summary_large_image" : "summary", title, description, images },
+  };
+}
+
+// La página es la misma app: Home lee la ruta y restaura canción, selección y vista previa
+export default function TrackPage() {
+  return <Home />;
+}
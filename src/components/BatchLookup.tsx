@@ -0,0 +1,291 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { ApiErrorBody, BatchEvent, BatchTrackStatus, SearchResult } from "@/lib/api/types";
+import { isSpotifyTrackId, parseSpotifyCollection } from "@/lib/deepLink";
+import { downloadDataUrl } from "@/lib/imageExport";
+import { formatTimestamp } from "@/lib/lrc";
+import { lyricsFilename } from "@/lib/lyricsExport";
+import { createZip } from "@/lib/zip";
+
+type TrackEvent = Extract<BatchEvent, { type: "track" }>;
+
+interface BatchLookupProps {
+  onSelectSong: (song: SearchResult) => void;
+}
+
+const statuses: { id: BatchTrackStatus; name: string; className: string }[] = [
+  { id: "synced", name: "Synced", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200" },
+  { id: "plain", name: "Plain only", className: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200" },
+  { id: "instrumental", name: "Instrumental", className: "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200" },
+  { id: "none", name: "Missing", className: "bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300" },
+  { id: "error", name: "Failed", className: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200" },
+];
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Informe del lote en el orden de la lista original
+function reportCsv(rows: TrackEvent[]): string {
+  const lines = rows.map((r) =>
+    [
+      statuses.find((s) => s.id === r.status)!.name,
+      r.track.title,
+      r.track.artist,
+      r.track.album,
+      r.track.duration > 0 ? formatTimestamp(r.track.duration) : "",
+      r.source ?? "",
+      isSpotifyTrackId(r.track.id) ? r.track.id : "",
+      r.message ?? "",
+    ]
+      .map(csvField)
+      .join(",")
+  );
+  return ["Status,Track,Artist,Album,Duration,Source,Spotify ID,Error", ...lines].join("\n") + "\n";
+}
+
+// Búsqueda de letras de una playlist, un álbum o una lista subida, con progreso en vivo
+export default function BatchLookup({ onSelectSong }: BatchLookupProps) {
+  const [link, setLink] = useState("");
+  const [listName, setListName] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [truncated, setTruncated] = useState(false);
+  // Indexado por la posición en la lista; las pistas llegan en cualquier orden
+  const [rows, setRows] = useState<TrackEvent[]>([]);
+  const [filter, setFilter] = useState<BatchTrackStatus | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+  const [error, setError] = useState("");
+  const abortRef = useRef<AbortController | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  // Al cerrar el panel se deja de consultar
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleEvent = (event: BatchEvent) => {
+    if (event.type === "start") {
+      if (event.name) setListName(event.name);
+      setTotal(event.total);
+      setTruncated(event.truncated);
+    } else if (event.type === "track") {
+      setRows((prev) => {
+        const next = [...prev];
+        next[event.index] = event;
+        return next;
+      });
+    } else {
+      setIsDone(true);
+    }
+  };
+
+  const run = async (body: string, contentType: string, name: string | null) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRows([]);
+    setTotal(0);
+    setTruncated(false);
+    setFilter(null);
+    setListName(name);
+    setIsDone(false);
+    setError("");
+    setIsRunning(true);
+    try {
+      const res = await fetch("/api/v1/lyrics/batch", {
+        method: "POST",
+        headers: { "Content-Type": contentType },
+        body,
+        signal: controller.signal,
+      });
+      if (!res.ok || !res.body) {
+        const data: Partial<ApiErrorBody> = await res.json().catch(() => ({}));
+        throw new Error(data.error?.message ?? `Error ${res.status}`);
+      }
+      // NDJSON: un evento por línea; la última puede llegar partida entre dos trozos
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          if (line.trim()) handleEvent(JSON.parse(line) as BatchEvent);
+        }
+      }
+    } catch (e: unknown) {
+      if (e instanceof DOMException && e.name === "AbortError") return;
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      if (abortRef.current === controller) setIsRunning(false);
+    }
+  };
+
+  const handleLinkSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const collection = parseSpotifyCollection(link);
+    if (!collection) {
+      setError("Paste a Spotify playlist or album link.");
+      return;
+    }
+    const key = collection.kind === "playlist" ? "playlistId" : "albumId";
+    run(JSON.stringify({ [key]: collection.id }), "application/json", null);
+  };
+
+  const handleFile = async (file: File) => {
+    const isCsv = /\.(csv|tsv|txt)$/i.test(file.name) || file.type === "text/csv";
+    run(await file.text(), isCsv ? "text/csv" : "application/json", file.name.replace(/\.\w+$/, ""));
+  };
+
+  const stop = () => {
+    abortRef.current?.abort();
+    setIsRunning(false);
+  };
+
+  const finished = rows.filter(Boolean);
+  const counts = Object.fromEntries(
+    statuses.map((s) => [s.id, finished.filter((r) => r.status === s.id).length])
+  ) as Record<BatchTrackStatus, number>;
+  const visible = filter ? finished.filter((r) => r.status === filter) : finished;
+
+  // .lrc de las pistas sincronizadas más el informe completo
+  const downloadZip = () => {
+    const used = new Set<string>();
+    const files = finished
+      .filter((r) => r.lrc)
+      .map((r) => {
+        let name = lyricsFilename(r.track.artist, r.track.title, "lrc");
+        for (let n = 2; used.has(name.toLowerCase()); n++) {
+          name = lyricsFilename(r.track.artist, `${r.track.title} (${n})`, "lrc");
+        }
+        used.add(name.toLowerCase());
+        return { name, content: r.lrc! };
+      });
+    files.push({ name: "report.csv", content: reportCsv(finished) });
+    const url = URL.createObjectURL(new Blob([createZip(files)], { type: "application/zip" }));
+    const base = (listName ?? "lyrics").replace(/[\\/:*?"<>|]/g, "").trim() || "lyrics";
+    downloadDataUrl(url, `${base} - lyrics.zip`);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="w-full max-w-2xl mb-8 p-4 border rounded bg-white dark:bg-gray-900 animate-fadeIn">
+      <form onSubmit={handleLinkSubmit} className="flex gap-2 mb-2">
+        <input
+          type="text"
+          value={link}
+          onChange={(e) => setLink(e.target.value)}
+          placeholder="Spotify playlist or album link"
+          className="flex-1 p-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm focus:outline-none focus:ring-1 focus:ring-teal-500"
+        />
+        <button
+          type="submit"
+          disabled={isRunning || !link.trim()}
+          className="px-4 py-2 rounded bg-teal-500 hover:bg-teal-700 text-white text-sm disabled:opacity-50"
+        >
+          Check lyrics
+        </button>
+      </form>
+      <p className="mb-3 text-xs text-gray-500 dark:text-gray-400">
+        Or{" "}
+        <button onClick={() => fileRef.current?.click()} disabled={isRunning} className="text-teal-600 dark:text-teal-400 hover:underline">
+          upload a CSV or JSON track list
+        </button>{" "}
+        with track name, artist and, optionally, album and duration columns (an Exportify export works).
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".csv,.tsv,.txt,.json,text/csv,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = "";
+          }}
+        />
+      </p>
+
+      {error && <p className="text-red-500 text-sm mb-2">{error}</p>}
+
+      {(isRunning || finished.length > 0) && (
+        <>
+          <div className="flex items-center justify-between gap-2 text-sm mb-1">
+            <span className="font-semibold truncate">{listName ?? "Batch lookup"}</span>
+            <span className="whitespace-nowrap text-gray-600 dark:text-gray-400">
+              {finished.length} / {total || "…"}
+              {isRunning && (
+                <button onClick={stop} className="ml-2 text-red-500 hover:underline">
+                  Stop
+                </button>
+              )}
+            </span>
+          </div>
+          <div className="h-2 mb-3 rounded bg-gray-200 dark:bg-gray-700 overflow-hidden">
+            <div
+              className="h-full bg-teal-500 transition-all duration-300"
+              style={{ width: `${total ? (finished.length / total) * 100 : 0}%` }}
+            />
+          </div>
+          {truncated && (
+            <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">Only the first {total} tracks are checked.</p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+            <button
+              onClick={() => setFilter(null)}
+              className={`px-2 py-1 rounded ${filter === null ? "ring-2 ring-teal-500" : ""} bg-gray-100 dark:bg-gray-800`}
+            >
+              All {finished.length}
+            </button>
+            {statuses.map((s) => (
+              <button
+                key={s.id}
+                onClick={() => setFilter(filter === s.id ? null : s.id)}
+                className={`px-2 py-1 rounded ${s.className} ${filter === s.id ? "ring-2 ring-teal-500" : ""}`}
+              >
+                {s.name} {counts[s.id]}
+              </button>
+            ))}
+            {finished.length > 0 && (
+              <button
+                onClick={downloadZip}
+                className="ml-auto px-3 py-1 rounded bg-teal-500 hover:bg-teal-700 text-white"
+                title="The .lrc files of every synced track, plus a CSV report"
+              >
+                Download .lrc ZIP ({counts.synced})
+              </button>
+            )}
+          </div>
+
+          <ul className="space-y-1 max-h-96 overflow-y-auto text-sm">
+            {visible.map((r) => {
+              const status = statuses.find((s) => s.id === r.status)!;
+              return (
+                <li
+                  key={r.index}
+                  onClick={() => onSelectSong(r.track)}
+                  title={r.message}
+                  className="flex items-center gap-2 p-2 border rounded cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors duration-150"
+                >
+                  <span className="w-6 text-right text-xs text-gray-500">{r.index + 1}</span>
+                  <span className="flex-1 min-w-0 truncate">
+                    <span className="font-semibold">{r.track.title}</span> – {r.track.artist}
+                  </span>
+                  <span className={`px-2 py-0.5 rounded text-xs whitespace-nowrap ${status.className}`}>{status.name}</span>
+                </li>
+              );
+            })}
+          </ul>
+          {isDone && (
+            <p className="mt-2 text-xs text-center text-gray-500 dark:text-gray-400">
+              Done: {counts.synced} synced, {counts.plain} plain only, {counts.instrumental} instrumental, {counts.none} missing
+              {counts.error > 0 && `, ${counts.error} failed`}.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { CardPalette } from "@/lib/card/palette";
+import {
+  cardLayouts,
+  fontOptions,
+  gradientPresets,
+  MAX_FONT_SIZE,
+  MIN_FONT_SIZE,
+  type CardBackground,
+  type CardLayout,
+  type CardStyle,
+  type CardTextAlign,
+} from "@/lib/card/style";
+import {
+  deleteTemplate,
+  loadTemplates,
+  saveTemplate,
+  type CardTemplate,
+} from "@/lib/card/templates";
+
+interface CardEditorProps {
+  style: CardStyle;
+  onChange: (style: CardStyle) => void;
+  palette: CardPalette | null;
+  isExtractingPalette: boolean;
+}
+
+const selectClass =
+  "w-full p-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 transition-colors duration-200 ease-in-out";
+const labelClass = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+// Valor del selector de fondo <-> CardBackground
+function backgroundKey(bg: CardBackground): string {
+  return bg.type === "preset" ? `preset:${bg.name}` : bg.type;
+}
+
+// Editor de la tarjeta del modal: fondo, tipografía, layout, visibilidad y plantillas guardadas
+export default function CardEditor({ style, onChange, palette, isExtractingPalette }: CardEditorProps) {
+  const [templates, setTemplates] = useState<CardTemplate[]>([]);
+  const [templateName, setTemplateName] = useState("");
+
+  useEffect(() => {
+    setTemplates(loadTemplates());
+  }, []);
+
+  const update = (patch: Partial<CardStyle>) => onChange({ ...style, ...patch });
+
+  const handleBackgroundChange = (key: string) => {
+    if (key.startsWith("preset:")) {
+      update({ background: { type: "preset", name: key.slice("preset:".length) } });
+    } else if (key === "gradient") {
+      update({ background: { type: "gradient", stops: ["#9333ea", "#4f46e5"], angle: 135 } });
+    } else if (key === "solid") {
+      update({ background: { type: "solid", color: "#111827" } });
+    } else {
+      update({ background: { type: "auto" } });
+    }
+  };
+
+  const handleSaveTemplate = () => {
+    const name = templateName.trim();
+    if (!name) return;
+    setTemplates(saveTemplate(name, style));
+    setTemplateName("");
+  };
+
+  const bg = style.background;
+
+  return (
+    <div className="p-4 bg-gray-50 dark:bg-gray-800 border-t border-b grid grid-cols-2 gap-4 max-h-72 overflow-y-auto">
+      {/* Templates */}
+      <div className="col-span-2">
+        <label htmlFor="template-select" className={labelClass}>
+          Template:
+        </label>
+        <div className="flex gap-2">
+          <select
+            id="template-select"
+            value=""
+            onChange={(e) => {
+              const template = templates.find((t) => t.name === e.target.value);
+              if (template) onChange(template.style);
+            }}
+            className={selectClass}
+          >
+            <option value="">{templates.length ? "Apply a saved template…" : "No saved templates"}</option>
+            {templates.map((t) => (
+              <option key={t.name} value={t.name}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+          {templates.some((t) => t.name === templateName.trim()) && (
+            <button
+              onClick={() => setTemplates(deleteTemplate(templateName.trim()))}
+              className="px-2 text-sm text-red-600 hover:underline"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+        <div className="flex gap-2 mt-2">
+          <input
+            value={templateName}
+            onChange={(e) => setTemplateName(e.target.value)}
+            placeholder="Template name"
+            list="template-names"
+            className={selectClass}
+          />
+          <datalist id="template-names">
+            {templates.map((t) => (
+              <option key={t.name} value={t.name} />
+            ))}
+          </datalist>
+          <button
+            onClick={handleSaveTemplate}
+            disabled={!templateName.trim()}
+            className="px-3 rounded bg-blue-500 hover:bg-blue-600 text-white text-sm disabled:opacity-50 transition-colors duration-200"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="font-select" className={labelClass}>
+          Font:
+        </label>
+        <select
+          id="font-select"
+          value={style.font}
+          onChange={(e) => update({ font: e.target.value })}
+          className={selectClass}
+        >
+          {fontOptions.map((f) => (
+            <option key={f.value} value={f.value} style={{ fontFamily: f.value }}>
+              {f.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="gradient-select" className={labelClass}>
+          Background:
+        </label>
+        <select
+          id="gradient-select"
+          value={backgroundKey(bg)}
+          disabled={isExtractingPalette}
+          onChange={(e) => handleBackgroundChange(e.target.value)}
+          className={selectClass}
+        >
+          <option value="auto">Auto from cover</option>
+          {gradientPresets.map((g) => (
+            <option key={g.name} value={`preset:${g.name}`}>
+              {g.name}
+            </option>
+          ))}
+          <option value="gradient">Custom gradient</option>
+          <option value="solid">Solid color</option>
+        </select>
+        {bg.type === "auto" && palette && (
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Text contrast {palette.contrast}:1
+          </p>
+        )}
+      </div>
+
+      {bg.type === "gradient" && (
+        <div className="col-span-2 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          {bg.stops.map((stop, i) => (
+            <input
+              key={i}
+              type="color"
+              value={stop}
+              aria-label={`Gradient stop ${i + 1}`}
+              onChange={(e) =>
+                update({ background: { ...bg, stops: bg.stops.map((s, j) => (j === i ? e.target.value : s)) } })
+              }
+            />
+          ))}
+          {bg.stops.length < 4 && (
+            <button
+              onClick={() => update({ background: { ...bg, stops: [...bg.stops, bg.stops.at(-1)!] } })}
+              className="px-2 rounded bg-gray-200 dark:bg-gray-700"
+              aria-label="Add gradient stop"
+            >
+              +
+            </button>
+          )}
+          {bg.stops.length > 2 && (
+            <button
+              onClick={() => update({ background: { ...bg, stops: bg.stops.slice(0, -1) } })}
+              className="px-2 rounded bg-gray-200 dark:bg-gray-700"
+              aria-label="Remove gradient stop"
+            >
+              −
+            </button>
+          )}
+          <label className="flex items-center gap-1 ml-auto">
+            Angle
+            <input
+              type="range"
+              min={0}
+              max={359}
+              value={bg.angle}
+              onChange={(e) => update({ background: { ...bg, angle: parseInt(e.target.value, 10) } })}
+            />
+            <span className="w-10 font-mono text-xs">{bg.angle}°</span>
+          </label>
+        </div>
+      )}
+
+      {bg.type === "solid" && (
+        <label className="col-span-2 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          Color
+          <input
+            type="color"
+            value={bg.color}
+            onChange={(e) => update({ background: { type: "solid", color: e.target.value } })}
+          />
+        </label>
+      )}
+
+      <div>
+        <label htmlFor="layout-select" className={labelClass}>
+          Layout:
+        </label>
+        <select
+          id="layout-select"
+          value={style.layout}
+          onChange={(e) => update({ layout: e.target.value as CardLayout })}
+          className={selectClass}
+        >
+          {cardLayouts.map((l) => (
+            <option key={l.id} value={l.id}>
+              {l.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <span className={labelClass}>Text color:</span>
+        <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={style.textColor === null}
+              onChange={(e) => update({ textColor: e.target.checked ? null : "#ffffff" })}
+            />
+            Auto
+          </label>
+          {style.textColor !== null && (
+            <input
+              type="color"
+              value={style.textColor}
+              aria-label="Text color"
+              onChange={(e) => update({ textColor: e.target.value })}
+            />
+          )}
+        </div>
+      </div>
+
+      <div>
+        <span className={labelClass}>Alignment:</span>
+        <div className="flex rounded overflow-hidden border border-gray-300 dark:border-gray-600 text-sm">
+          {(["left", "center", "right"] as CardTextAlign[]).map((align) => (
+            <button
+              key={align}
+              onClick={() => update({ textAlign: align })}
+              className={`flex-1 py-1 capitalize transition-colors duration-150 ${style.textAlign === align
+                ? "bg-blue-500 text-white"
+                : "bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600"
+                }`}
+            >
+              {align}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="font-size" className={labelClass}>
+          Text size: {style.fontSize}px
+        </label>
+        <input
+          id="font-size"
+          type="range"
+          min={MIN_FONT_SIZE}
+          max={MAX_FONT_SIZE}
+          value={style.fontSize}
+          onChange={(e) => update({ fontSize: parseInt(e.target.value, 10) })}
+          className="w-full"
+        />
+      </div>
+
+      <div className="col-span-2 flex flex-wrap gap-4 text-sm text-gray-700 dark:text-gray-300">
+        {([
+          ["showArtist", "Artist"],
+          ["showAlbum", "Album"],
+          ["showCredit", "Credit"],
+          ["showTranslation", "Translation"],
+        ] as const).map(([key, label]) => (
+          <label key={key} className="flex items-center gap-1">
+            <input type="checkbox" checked={style[key]} onChange={(e) => update({ [key]: e.target.checked })} />
+            {label}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
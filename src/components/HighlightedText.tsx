@@ -0,0 +1,31 @@
+"use client";
+
+import type { TextRange } from "@/lib/textSearch";
+
+interface HighlightedTextProps {
+  text: string;
+  ranges: TextRange[];
+  // Índice del rango que se resalta como coincidencia actual
+  activeRange?: number;
+}
+
+// Texto con las coincidencias de una búsqueda marcadas
+export default function HighlightedText({ text, ranges, activeRange }: HighlightedTextProps) {
+  if (!ranges.length) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach(([start, end], i) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(
+      <mark
+        key={i}
+        className={`rounded px-0.5 ${i === activeRange ? "bg-orange-400 dark:bg-orange-500" : "bg-yellow-200 dark:bg-yellow-600"}`}
+      >
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  if (position < text.length) parts.push(text.slice(position));
+  return <>{parts}</>;
+}
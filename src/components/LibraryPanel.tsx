@@ -0,0 +1,164 @@
+"use client";
+
+import { useRef, useState } from "react";
+import Image from "next/image";
+import type { SearchResult } from "@/lib/api/types";
+import type { FavoriteEntry, HistoryEntry, SavedQuote } from "@/lib/library";
+
+type LibraryTab = "history" | "favorites" | "quotes";
+
+interface LibraryPanelProps {
+  history: HistoryEntry[];
+  favorites: FavoriteEntry[];
+  quotes: SavedQuote[];
+  onOpenSong: (song: SearchResult) => void;
+  onOpenQuote: (quote: SavedQuote) => void;
+  onDeleteQuote: (id: string) => void;
+  onToggleFavorite: (song: SearchResult) => void;
+  onClearHistory: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const tabs: { id: LibraryTab; name: string }[] = [
+  { id: "history", name: "Recent" },
+  { id: "favorites", name: "Favorites" },
+  { id: "quotes", name: "Saved quotes" },
+];
+
+function SongRow({ song, onClick, children }: { song: SearchResult; onClick: () => void; children?: React.ReactNode }) {
+  return (
+    <li className="flex items-center gap-3 p-2 border rounded hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors duration-150">
+      <button onClick={onClick} className="flex items-center gap-3 flex-1 min-w-0 text-left">
+        {song.thumbnailUrl && (
+          <Image src={song.thumbnailUrl} alt="" width={40} height={40} className="rounded object-cover flex-shrink-0" />
+        )}
+        <span className="min-w-0">
+          <span className="block font-semibold truncate">{song.title}</span>
+          <span className="block text-xs text-gray-600 dark:text-gray-400 truncate">{song.artist}</span>
+        </span>
+      </button>
+      {children}
+    </li>
+  );
+}
+
+// Biblioteca local: canciones recientes, favoritas y citas guardadas con exportación/importación JSON
+export default function LibraryPanel({
+  history,
+  favorites,
+  quotes,
+  onOpenSong,
+  onOpenQuote,
+  onDeleteQuote,
+  onToggleFavorite,
+  onClearHistory,
+  onExport,
+  onImport,
+}: LibraryPanelProps) {
+  const [tab, setTab] = useState<LibraryTab>("quotes");
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const empty = (text: string) => <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">{text}</p>;
+
+  return (
+    <div className="w-full max-w-lg mb-8 p-4 border rounded bg-white dark:bg-gray-900 animate-fadeIn">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex rounded overflow-hidden border border-gray-300 dark:border-gray-600 text-sm">
+          {tabs.map((t) => (
+            <button
+              key={t.id}
+              onClick={() => setTab(t.id)}
+              className={`px-3 py-1 transition-colors duration-150 ${tab === t.id
+                ? "bg-teal-500 text-white"
+                : "bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600"
+                }`}
+            >
+              {t.name}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-3 text-xs text-teal-600 dark:text-teal-400">
+          <button onClick={onExport} className="hover:underline">
+            Export
+          </button>
+          <button onClick={() => fileRef.current?.click()} className="hover:underline">
+            Import
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = "";
+            }}
+          />
+        </div>
+      </div>
+
+      {tab === "history" &&
+        (history.length ? (
+          <>
+            <ul className="space-y-2 max-h-80 overflow-y-auto">
+              {history.map((entry) => (
+                <SongRow key={entry.song.id} song={entry.song} onClick={() => onOpenSong(entry.song)} />
+              ))}
+            </ul>
+            <button onClick={onClearHistory} className="mt-2 text-xs text-red-600 hover:underline">
+              Clear history
+            </button>
+          </>
+        ) : (
+          empty("Songs you open will show up here.")
+        ))}
+
+      {tab === "favorites" &&
+        (favorites.length ? (
+          <ul className="space-y-2 max-h-80 overflow-y-auto">
+            {favorites.map((entry) => (
+              <SongRow key={entry.song.id} song={entry.song} onClick={() => onOpenSong(entry.song)}>
+                <button
+                  onClick={() => onToggleFavorite(entry.song)}
+                  className="text-yellow-500 text-lg"
+                  aria-label="Remove from favorites"
+                >
+                  ★
+                </button>
+              </SongRow>
+            ))}
+          </ul>
+        ) : (
+          empty("Star a song to keep it here.")
+        ))}
+
+      {tab === "quotes" &&
+        (quotes.length ? (
+          <ul className="space-y-2 max-h-80 overflow-y-auto">
+            {quotes.map((quote) => (
+              <li key={quote.id} className="p-2 border rounded">
+                <p className="text-sm italic whitespace-pre-line line-clamp-3">{quote.lines.join("\n")}</p>
+                <div className="mt-1 flex items-center justify-between gap-2 text-xs text-gray-600 dark:text-gray-400">
+                  <span className="truncate">
+                    {quote.song.title} – {quote.song.artist} · {new Date(quote.createdAt).toLocaleDateString()}
+                  </span>
+                  <span className="flex gap-3 flex-shrink-0">
+                    <button onClick={() => onOpenQuote(quote)} className="text-teal-600 dark:text-teal-400 hover:underline">
+                      Open
+                    </button>
+                    <button onClick={() => onDeleteQuote(quote.id)} className="text-red-600 hover:underline">
+                      Delete
+                    </button>
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          empty("Save a quote from the share preview to find it here.")
+        ))}
+    </div>
+  );
+}
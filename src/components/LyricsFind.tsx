@@ -0,0 +1,58 @@
+"use client";
+
+interface LyricsFindProps {
+  query: string;
+  // Posición (desde 0) de la coincidencia actual y total de coincidencias
+  current: number;
+  total: number;
+  onQueryChange: (query: string) => void;
+  onStep: (direction: 1 | -1) => void;
+}
+
+// Buscador dentro de la letra abierta: Enter / Shift+Enter saltan entre coincidencias
+export default function LyricsFind({ query, current, total, onQueryChange, onStep }: LyricsFindProps) {
+  const hasQuery = query.trim() !== "";
+  return (
+    <div className="mb-2 flex items-center gap-2 text-sm">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            onStep(e.shiftKey ? -1 : 1);
+          } else if (e.key === "Escape") {
+            onQueryChange("");
+          }
+        }}
+        placeholder="Find in lyrics…"
+        aria-label="Find in lyrics"
+        className="flex-1 p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 focus:outline-none focus:ring-1 focus:ring-teal-500"
+      />
+      {hasQuery && (
+        <>
+          <span className="whitespace-nowrap text-gray-600 dark:text-gray-400">
+            {total ? `${current + 1} of ${total}` : "No matches"}
+          </span>
+          <button
+            onClick={() => onStep(-1)}
+            disabled={!total}
+            className="px-2 rounded bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
+            aria-label="Previous match"
+          >
+            ↑
+          </button>
+          <button
+            onClick={() => onStep(1)}
+            disabled={!total}
+            className="px-2 rounded bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
+            aria-label="Next match"
+          >
+            ↓
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useState } from "react";
+import type { SearchResult } from "@/lib/api/types";
+import { parseDuration } from "@/lib/lrc";
+
+interface ManualTrackFormProps {
+  disabled?: boolean;
+  onSubmit: (song: SearchResult) => void;
+}
+
+const inputClass =
+  "w-full p-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm focus:outline-none focus:ring-1 focus:ring-teal-500";
+
+// Entrada manual de metadatos para buscar letras sin Spotify
+export default function ManualTrackForm({ disabled, onSubmit }: ManualTrackFormProps) {
+  const [title, setTitle] = useState("");
+  const [artist, setArtist] = useState("");
+  const [album, setAlbum] = useState("");
+  const [duration, setDuration] = useState("");
+
+  const durationMs = parseDuration(duration);
+  const durationInvalid = duration.trim() !== "" && durationMs === undefined;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim() || !artist.trim() || durationInvalid) return;
+    onSubmit({
+      id: `manual-${Date.now()}`,
+      title: title.trim(),
+      artist: artist.trim(),
+      album: album.trim(),
+      // 0 = desconocida; la ruta de letras pasa directamente a /search
+      duration: durationMs ?? 0,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-3 p-4 border rounded bg-gray-50 dark:bg-gray-800">
+      <input
+        className={inputClass}
+        placeholder="Title *"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+      />
+      <input
+        className={inputClass}
+        placeholder="Artist *"
+        value={artist}
+        onChange={(e) => setArtist(e.target.value)}
+      />
+      <input
+        className={inputClass}
+        placeholder="Album"
+        value={album}
+        onChange={(e) => setAlbum(e.target.value)}
+      />
+      <input
+        className={`${inputClass} ${durationInvalid ? "ring-1 ring-red-500" : ""}`}
+        placeholder="Duration (m:ss)"
+        value={duration}
+        onChange={(e) => setDuration(e.target.value)}
+      />
+      <button
+        type="submit"
+        disabled={disabled || !title.trim() || !artist.trim() || durationInvalid}
+        className="col-span-2 bg-teal-500 hover:bg-teal-700 text-white py-2 px-4 rounded disabled:opacity-50 transition-colors duration-200 ease-in-out"
+      >
+        Find lyrics
+      </button>
+    </form>
+  );
+}
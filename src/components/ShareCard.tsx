@@ -0,0 +1,198 @@
+"use client";
+
+import Image from "next/image";
+import type { CSSProperties, Ref } from "react";
+import type { SearchResult } from "@/lib/api/types";
+import type { CardPalette } from "@/lib/card/palette";
+import { cardMetaLine, cardMetrics, COVER_OVERLAY } from "@/lib/card/layout";
+import type { CardSize } from "@/lib/card/presets";
+import type { CardStyle } from "@/lib/card/style";
+import type { LineEffect } from "@/lib/lyricVideo";
+
+interface ShareCardProps {
+  ref?: Ref<HTMLDivElement>;
+  song: SearchResult;
+  lines: string[];
+  // Traducción o romanización de cada línea (mismo índice que `lines`)
+  secondaryLines?: string[];
+  style: CardStyle;
+  // Paleta de la portada, usada cuando el fondo es "auto"
+  palette?: CardPalette | null;
+  credit: string;
+  // null = tarjeta natural del modal
+  size: CardSize | null;
+  coverSrc?: string;
+  onCoverLoad?: () => void;
+  // Fotograma de la exportación animada: línea activa (-1 = antes de la primera) y cómo se marca
+  activeLine?: number | null;
+  lineEffect?: LineEffect;
+}
+
+// Tarjeta para compartir. Con `size` se maqueta a ese tamaño exacto en píxeles (story, post, etc.);
+// las medidas salen de cardMetrics, compartidas con el render del servidor.
+export default function ShareCard({
+  ref,
+  song,
+  lines,
+  secondaryLines = [],
+  style,
+  palette,
+  credit,
+  size,
+  coverSrc,
+  onCoverLoad,
+  activeLine = null,
+  lineEffect = "reveal",
+}: ShareCardProps) {
+  const m = cardMetrics(style, size, palette, !!coverSrc);
+  const { landscape, hasCover, sideCover, border } = m;
+  const { layout, textAlign } = style;
+
+  const rootStyle: CSSProperties = {
+    position: "relative",
+    overflow: "hidden",
+    background: m.background,
+    color: m.color,
+    fontFamily: style.font,
+    lineHeight: 1.6,
+    textAlign,
+    padding: m.padding,
+    ...(size
+      ? {
+        width: size.width,
+        height: size.height,
+        display: "flex",
+        flexDirection: m.direction,
+        justifyContent: "center",
+        alignItems: landscape && sideCover ? "center" : "stretch",
+        gap: m.gap,
+      }
+      : { borderRadius: 8 }),
+  };
+
+  const coverSize = m.coverSize;
+  const cover = sideCover && (
+    <Image
+      src={coverSrc!}
+      alt={`${song.title} cover`}
+      width={coverSize}
+      height={coverSize}
+      className="object-cover shadow-lg flex-shrink-0"
+      style={{
+        borderRadius: m.coverRadius,
+        border: `${m.coverBorder}px solid ${border}`,
+        // Tarjeta natural: portada flotante como en el diseño original
+        ...(size
+          ? { alignSelf: landscape ? "center" : textAlign === "center" ? "center" : textAlign === "right" ? "flex-end" : "flex-start" }
+          : {
+            float: layout === "cover-left" ? "left" : "right",
+            margin: layout === "cover-left" ? "0 16px 8px 0" : "0 0 8px 16px",
+          }),
+      }}
+      onLoadingComplete={onCoverLoad}
+    />
+  );
+
+  const meta = cardMetaLine(song, style);
+
+  // "reveal" oculta (sin mover el resto) las líneas aún no cantadas; "highlight" atenúa las demás
+  const lineVisibility = (i: number): CSSProperties => {
+    if (activeLine === null) return {};
+    if (lineEffect === "reveal") return i > activeLine ? { visibility: "hidden" } : {};
+    return { opacity: i === activeLine ? 1 : 0.35 };
+  };
+
+  const header = layout !== "quote" && (
+    <>
+      <h3
+        className="font-bold"
+        style={{ fontSize: m.titleSize, borderBottom: `1px solid ${border}`, paddingBottom: m.titleGap, marginBottom: m.titleGap }}
+      >
+        {song.title}
+      </h3>
+      {meta && <p style={{ fontSize: m.metaSize, opacity: 0.8, marginBottom: m.metaGap }}>{meta}</p>}
+    </>
+  );
+
+  const body = (
+    <div style={{ clear: "both", paddingTop: m.bodyTop }}>
+      {layout === "quote" && (
+        <div aria-hidden style={{ fontSize: m.quoteMarkSize, lineHeight: 1, opacity: 0.5, fontFamily: "Georgia, serif" }}>
+          &ldquo;
+        </div>
+      )}
+      {lines.map((line, i) => (
+        <p
+          key={i}
+          style={{
+            fontSize: m.lineSize,
+            fontStyle: layout === "quote" ? "italic" : undefined,
+            marginBottom: m.lineGap,
+            ...lineVisibility(i),
+          }}
+        >
+          {line || "\u00A0"}
+          {style.showTranslation && secondaryLines[i] && (
+            <span style={{ display: "block", fontSize: m.secondarySize, fontStyle: "normal", opacity: 0.75 }}>
+              {secondaryLines[i]}
+            </span>
+          )}
+        </p>
+      ))}
+      {layout === "quote" && (
+        <p style={{ fontSize: m.attributionSize, opacity: 0.8, marginTop: m.creditGap }}>
+          — {song.title}
+          {meta && `, ${meta}`}
+        </p>
+      )}
+    </div>
+  );
+
+  const footer = style.showCredit && (
+    <p style={{ clear: "both", fontSize: m.creditSize, opacity: 0.6, marginTop: m.creditGap, textAlign: m.creditAlign }}>
+      {credit}
+    </p>
+  );
+
+  return (
+    <div ref={ref} style={rootStyle}>
+      {hasCover && layout === "cover-background" && (
+        <>
+          {/* eslint-disable-next-line @next/next/no-img-element -- se necesita un <img> plano para el desenfoque a tamaño completo */}
+          <img
+            src={coverSrc}
+            alt=""
+            onLoad={onCoverLoad}
+            style={{
+              position: "absolute",
+              inset: 0,
+              width: "100%",
+              height: "100%",
+              objectFit: "cover",
+              filter: `blur(${m.coverBlur}px)`,
+              transform: "scale(1.15)",
+            }}
+          />
+          <div style={{ position: "absolute", inset: 0, background: COVER_OVERLAY }} />
+        </>
+      )}
+      {size && sideCover ? (
+        <>
+          {cover}
+          <div style={{ position: "relative", flex: landscape ? 1 : undefined, minWidth: 0 }}>
+            {header}
+            {body}
+            {footer}
+          </div>
+        </>
+      ) : (
+        <div style={{ position: "relative" }}>
+          {cover}
+          {header}
+          {body}
+          {footer}
+        </div>
+      )}
+    </div>
+  );
+}
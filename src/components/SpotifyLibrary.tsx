@@ -0,0 +1,162 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import type {
+  PlaylistSummary,
+  PlaylistsResponse,
+  SearchResult,
+  TrackListResponse,
+} from "@/lib/api/types";
+
+type LibraryTab = "recent" | "saved" | "playlists";
+
+interface SpotifyLibraryProps {
+  // fetchApi de la página: gestiona la sesión y los errores de la API
+  fetchJson: <T>(url: string) => Promise<T>;
+  onSelectSong: (song: SearchResult) => void;
+}
+
+const PAGE_SIZE = 20;
+
+const tabs: { id: LibraryTab; name: string }[] = [
+  { id: "recent", name: "Recently played" },
+  { id: "saved", name: "Liked songs" },
+  { id: "playlists", name: "Playlists" },
+];
+
+function listUrl(tab: LibraryTab, playlist: PlaylistSummary | null): string {
+  if (tab === "recent") return "/api/v1/me/recent";
+  if (tab === "saved") return "/api/v1/me/tracks";
+  return playlist ? `/api/v1/me/playlists/${playlist.id}/tracks` : "/api/v1/me/playlists";
+}
+
+// Biblioteca de Spotify del usuario: recientes, canciones guardadas y playlists
+export default function SpotifyLibrary({ fetchJson, onSelectSong }: SpotifyLibraryProps) {
+  const [tab, setTab] = useState<LibraryTab>("recent");
+  const [playlist, setPlaylist] = useState<PlaylistSummary | null>(null);
+  const [tracks, setTracks] = useState<SearchResult[]>([]);
+  const [playlists, setPlaylists] = useState<PlaylistSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextOffset, setNextOffset] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  // Petición más reciente: la respuesta de otra (pestaña o playlist anterior) se descarta
+  const requestRef = useRef(0);
+
+  const loadPage = useCallback(async (nextTab: LibraryTab, nextPlaylist: PlaylistSummary | null, offset: number) => {
+    const request = ++requestRef.current;
+    setIsLoading(true);
+    setError("");
+    try {
+      const data = await fetchJson<TrackListResponse | PlaylistsResponse>(
+        `${listUrl(nextTab, nextPlaylist)}?limit=${PAGE_SIZE}&offset=${offset}`
+      );
+      if (request !== requestRef.current) return;
+      if ("playlists" in data) {
+        setPlaylists((prev) => (offset ? [...prev, ...data.playlists] : data.playlists));
+      } else {
+        setTracks((prev) => (offset ? [...prev, ...data.results] : data.results));
+      }
+      setTotal(data.total);
+      setNextOffset(offset + PAGE_SIZE);
+    } catch (e: unknown) {
+      if (request === requestRef.current) setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      if (request === requestRef.current) setIsLoading(false);
+    }
+  }, [fetchJson]);
+
+  // La lista se carga desde el efecto al cambiar de pestaña o de playlist
+  const openList = (nextTab: LibraryTab, nextPlaylist: PlaylistSummary | null = null) => {
+    if (nextTab === tab && nextPlaylist === playlist) return;
+    setTab(nextTab);
+    setPlaylist(nextPlaylist);
+    setTracks([]);
+    if (!nextPlaylist) setPlaylists([]);
+  };
+
+  useEffect(() => {
+    loadPage(tab, playlist, 0);
+  }, [tab, playlist, loadPage]);
+
+  const showsPlaylists = tab === "playlists" && !playlist;
+  // "Recientes" no admite offset en Spotify
+  const hasMore = tab !== "recent" && nextOffset < total;
+
+  return (
+    <div className="w-full max-w-lg mb-8 p-4 border rounded bg-white dark:bg-gray-900 animate-fadeIn">
+      <div className="flex rounded overflow-hidden border border-gray-300 dark:border-gray-600 text-sm mb-3">
+        {tabs.map((t) => (
+          <button
+            key={t.id}
+            onClick={() => openList(t.id)}
+            className={`flex-1 px-3 py-1 transition-colors duration-150 ${tab === t.id
+              ? "bg-green-500 text-white"
+              : "bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600"
+              }`}
+          >
+            {t.name}
+          </button>
+        ))}
+      </div>
+
+      {playlist && (
+        <button onClick={() => openList("playlists")} className="mb-2 text-sm text-green-600 dark:text-green-400 hover:underline">
+          ← {playlist.name}
+        </button>
+      )}
+
+      {error && <p className="text-red-500 text-sm mb-2">{error}</p>}
+
+      <ul className="space-y-2 max-h-96 overflow-y-auto">
+        {showsPlaylists
+          ? playlists.map((p) => (
+            <li
+              key={p.id}
+              onClick={() => openList("playlists", p)}
+              className="flex items-center gap-3 p-2 border rounded cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors duration-150"
+            >
+              {p.imageUrl && <Image src={p.imageUrl} alt="" width={40} height={40} className="rounded object-cover" />}
+              <span className="min-w-0">
+                <span className="block font-semibold truncate">{p.name}</span>
+                <span className="block text-xs text-gray-600 dark:text-gray-400">
+                  {p.owner} · {p.trackCount} tracks
+                </span>
+              </span>
+            </li>
+          ))
+          : tracks.map((song, i) => (
+            <li
+              key={`${song.id}-${i}`}
+              onClick={() => onSelectSong(song)}
+              className="flex items-center gap-3 p-2 border rounded cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors duration-150"
+            >
+              {song.thumbnailUrl && (
+                <Image src={song.thumbnailUrl} alt="" width={40} height={40} className="rounded object-cover" />
+              )}
+              <span className="min-w-0">
+                <span className="block font-semibold truncate">{song.title}</span>
+                <span className="block text-xs text-gray-600 dark:text-gray-400 truncate">
+                  {song.artist} – {song.album}
+                </span>
+              </span>
+            </li>
+          ))}
+      </ul>
+
+      {isLoading && <p className="text-sm text-gray-500 text-center mt-2 animate-pulse">Loading...</p>}
+      {!isLoading && !error && (showsPlaylists ? playlists : tracks).length === 0 && (
+        <p className="text-sm text-gray-500 text-center py-4">Nothing here yet.</p>
+      )}
+      {hasMore && !isLoading && (
+        <button
+          onClick={() => loadPage(tab, playlist, nextOffset)}
+          className="mt-2 w-full text-sm text-green-600 dark:text-green-400 hover:underline"
+        >
+          Load more
+        </button>
+      )}
+    </div>
+  );
+}
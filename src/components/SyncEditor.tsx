@@ -0,0 +1,363 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { PublishRequest, PublishResponse, SearchResult } from "@/lib/api/types";
+import { formatTimestamp, parseDuration, type SyncedLine } from "@/lib/lrc";
+import { formatLrcTime } from "@/lib/lyricsExport";
+
+interface SyncEditorProps {
+  song: SearchResult;
+  // Letra de partida (la mostrada, para corregirla) o vacía si no se encontró
+  initialText: string;
+  // Marcas de la letra sincronizada actual, alineadas con initialText
+  initialSynced: SyncedLine[];
+  // fetchApi de la página
+  fetchJson: <T>(url: string, init?: RequestInit) => Promise<T>;
+  // Publicar exige sesión de Spotify
+  canPublish: boolean;
+  onClose: () => void;
+  onPublished: (result: PublishResponse) => void;
+}
+
+interface SyncRow {
+  text: string;
+  time: number | null;
+}
+
+// Ajuste fino de una marca
+const NUDGE_MS = 100;
+
+const inputClass =
+  "w-full p-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm focus:outline-none focus:ring-1 focus:ring-teal-500";
+
+function initialRows(text: string, synced: SyncedLine[]): SyncRow[] {
+  const lines = text.split("\n");
+  const aligned = synced.length === lines.length && synced.every((l, i) => l.text === lines[i]);
+  return lines.map((line, i) => ({ text: line, time: aligned ? synced[i].time : null }));
+}
+
+// Editor de letra con sincronización "tap": se pega o corrige el texto y se marca cada línea
+// al oírla, con el clip de Spotify o con un cronómetro mientras suena la canción en otro sitio.
+export default function SyncEditor({ song, initialText, initialSynced, fetchJson, canPublish, onClose, onPublished }: SyncEditorProps) {
+  const [step, setStep] = useState<"edit" | "sync">("edit");
+  const [text, setText] = useState(initialText);
+  const [rows, setRows] = useState<SyncRow[]>(() => initialRows(initialText, initialSynced));
+  // Próxima línea a marcar; null = todas marcadas
+  const [current, setCurrent] = useState<number | null>(null);
+  const [album, setAlbum] = useState(song.album);
+  const [duration, setDuration] = useState(song.duration > 0 ? formatTimestamp(song.duration) : "");
+  const [clockMode, setClockMode] = useState<"preview" | "stopwatch">(song.previewUrl ? "preview" : "stopwatch");
+  // Posición del clip dentro de la canción (m:ss); Spotify no la indica
+  const [clipStart, setClipStart] = useState("0:00");
+  const [isRunning, setIsRunning] = useState(false);
+  const [clock, setClock] = useState(0);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [notice, setNotice] = useState("");
+  const audioRef = useRef<HTMLAudioElement>(null);
+  // Cronómetro: instante de arranque y tiempo acumulado antes de la última pausa
+  const startedAtRef = useRef<number | null>(null);
+  const elapsedRef = useRef(0);
+  const tapRef = useRef<() => void>(() => undefined);
+
+  const clipStartMs = parseDuration(clipStart) ?? 0;
+  const durationMs = parseDuration(duration);
+
+  const clockTime = useCallback(() => {
+    if (clockMode === "preview") return clipStartMs + (audioRef.current?.currentTime ?? 0) * 1000;
+    return elapsedRef.current + (startedAtRef.current !== null ? Date.now() - startedAtRef.current : 0);
+  }, [clockMode, clipStartMs]);
+
+  useEffect(() => {
+    if (!isRunning) return;
+    const timer = setInterval(() => setClock(clockTime()), 100);
+    return () => clearInterval(timer);
+  }, [isRunning, clockTime]);
+
+  // Espacio = marcar la línea actual (salvo escribiendo en un campo)
+  useEffect(() => {
+    if (step !== "sync") return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.code !== "Space" || ["INPUT", "TEXTAREA", "SELECT", "BUTTON"].includes(target.tagName)) return;
+      e.preventDefault();
+      tapRef.current();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [step]);
+
+  const nextLine = (from: number, list = rows): number | null => {
+    for (let i = from; i < list.length; i++) {
+      if (list[i].text.trim()) return i;
+    }
+    return null;
+  };
+
+  // Al pasar a sincronizar se conservan las marcas de las líneas que no cambiaron
+  const startSync = () => {
+    const next = text.split("\n").map((line, i) => ({ text: line, time: rows[i]?.text === line ? rows[i].time : null }));
+    const firstMissing = next.findIndex((r) => r.text.trim() && r.time === null);
+    setRows(next);
+    setCurrent(firstMissing >= 0 ? firstMissing : null);
+    setNotice("");
+    setStep("sync");
+  };
+
+  const togglePlay = () => {
+    if (clockMode === "preview") {
+      const audio = audioRef.current;
+      if (!audio) return;
+      if (audio.paused) audio.play().catch(() => setNotice("Could not play the preview clip."));
+      else audio.pause();
+      return;
+    }
+    if (startedAtRef.current === null) {
+      startedAtRef.current = Date.now();
+      setIsRunning(true);
+    } else {
+      elapsedRef.current += Date.now() - startedAtRef.current;
+      startedAtRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const restart = () => {
+    if (audioRef.current) audioRef.current.currentTime = 0;
+    elapsedRef.current = 0;
+    if (startedAtRef.current !== null) startedAtRef.current = Date.now();
+    setClock(clockTime());
+    setCurrent(nextLine(0));
+  };
+
+  const tap = () => {
+    if (current === null) return;
+    const time = Math.round(clockTime());
+    setRows((prev) => prev.map((r, i) => (i === current ? { ...r, time } : r)));
+    setCurrent(nextLine(current + 1));
+  };
+  tapRef.current = tap;
+
+  // Deshacer: vuelve a la última línea marcada antes de la actual
+  const undo = () => {
+    const end = current ?? rows.length;
+    for (let i = end - 1; i >= 0; i--) {
+      if (rows[i].time !== null && rows[i].text.trim()) {
+        setRows((prev) => prev.map((r, j) => (j === i ? { ...r, time: null } : r)));
+        setCurrent(i);
+        return;
+      }
+    }
+  };
+
+  const nudge = (index: number, delta: number) =>
+    setRows((prev) => prev.map((r, i) => (i === index && r.time !== null ? { ...r, time: Math.max(0, r.time + delta) } : r)));
+
+  const lyricRows = rows.filter((r) => r.text.trim());
+  const missing = lyricRows.filter((r) => r.time === null).length;
+  const outOfOrder = lyricRows.some((r, i) => i > 0 && r.time !== null && (lyricRows[i - 1].time ?? 0) > r.time);
+  const canSync = missing === 0 && !outOfOrder && lyricRows.length > 0;
+
+  const publish = async (synced: boolean) => {
+    if (!album.trim() || durationMs === undefined) {
+      setNotice("LRCLIB needs the album and the song length.");
+      return;
+    }
+    const body: PublishRequest = {
+      trackName: song.title,
+      artistName: song.artist,
+      albumName: album.trim(),
+      duration: durationMs,
+      plainLyrics: text.trim(),
+      syncedLyrics: synced ? lyricRows.map((r) => `[${formatLrcTime(r.time!)}]${r.text}`).join("\n") : null,
+    };
+    setIsPublishing(true);
+    setNotice("");
+    try {
+      const result = await fetchJson<PublishResponse>("/api/v1/lyrics/publish", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      onPublished(result);
+    } catch (e: unknown) {
+      setNotice(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-2xl mb-8 p-6 border rounded shadow-md bg-white dark:bg-gray-900 animate-fadeInUp">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold">
+          {step === "edit" ? "Edit lyrics" : "Sync lyrics"} – {song.title}
+        </h2>
+        <button onClick={onClose} className="text-sm text-gray-600 dark:text-gray-400 hover:underline">
+          Close
+        </button>
+      </div>
+
+      {step === "edit" ? (
+        <>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Paste or type the lyrics, one line per line."
+            rows={14}
+            className={`${inputClass} font-mono`}
+          />
+          <div className="mt-2 grid grid-cols-2 gap-2">
+            <input className={inputClass} placeholder="Album *" value={album} onChange={(e) => setAlbum(e.target.value)} />
+            <input
+              className={`${inputClass} ${duration && durationMs === undefined ? "ring-1 ring-red-500" : ""}`}
+              placeholder="Duration (m:ss) *"
+              value={duration}
+              onChange={(e) => setDuration(e.target.value)}
+            />
+          </div>
+          <div className="mt-4 flex flex-wrap justify-end gap-2">
+            <button
+              onClick={() => publish(false)}
+              disabled={!canPublish || isPublishing || !text.trim()}
+              className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              Publish text only
+            </button>
+            <button
+              onClick={startSync}
+              disabled={!text.trim()}
+              className="px-4 py-2 rounded bg-teal-500 hover:bg-teal-700 text-white disabled:opacity-50"
+            >
+              Sync timestamps →
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="mb-3 flex flex-wrap items-center gap-2 text-sm">
+            {song.previewUrl && (
+              <select
+                value={clockMode}
+                onChange={(e) => {
+                  audioRef.current?.pause();
+                  setIsRunning(false);
+                  setClockMode(e.target.value as "preview" | "stopwatch");
+                }}
+                className="p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700"
+              >
+                <option value="preview">Preview clip</option>
+                <option value="stopwatch">Stopwatch</option>
+              </select>
+            )}
+            {clockMode === "preview" && (
+              <label className="flex items-center gap-1">
+                Clip starts at
+                <input value={clipStart} onChange={(e) => setClipStart(e.target.value)} className={`${inputClass} w-16 p-1`} />
+              </label>
+            )}
+            <button onClick={togglePlay} className="px-3 py-1 rounded bg-green-500 hover:bg-green-600 text-white">
+              {isRunning ? "Pause" : clockMode === "preview" ? "Play preview" : "Start"}
+            </button>
+            <button onClick={restart} className="px-3 py-1 rounded bg-gray-200 dark:bg-gray-700">
+              Restart
+            </button>
+            <span className="font-mono">{formatLrcTime(clock)}</span>
+            {song.previewUrl && (
+              <audio
+                ref={audioRef}
+                src={song.previewUrl}
+                preload="auto"
+                onPlay={() => setIsRunning(true)}
+                onPause={() => {
+                  setIsRunning(false);
+                  setClock(clockTime());
+                }}
+                onEnded={() => setIsRunning(false)}
+              />
+            )}
+          </div>
+          <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+            {clockMode === "preview"
+              ? "The preview is a 30-second clip. Set where it starts in the song so timestamps line up."
+              : "Start the stopwatch together with the song playing elsewhere."}{" "}
+            Press Space or Tap when each line begins. Click a line to re-time it from there.
+          </p>
+
+          <div className="overflow-y-auto max-h-80 p-2 border rounded bg-gray-50 dark:bg-gray-800 font-mono text-sm">
+            {rows.map((row, i) =>
+              row.text.trim() ? (
+                <div
+                  key={i}
+                  onClick={() => setCurrent(i)}
+                  className={`flex items-center gap-2 p-1 rounded cursor-pointer ${i === current ? "bg-yellow-200 dark:bg-yellow-700" : "hover:bg-gray-200 dark:hover:bg-gray-700"}`}
+                >
+                  <span className="w-20 text-xs text-gray-500 dark:text-gray-400">
+                    {row.time !== null ? formatLrcTime(row.time) : "--:--.--"}
+                  </span>
+                  <span className="flex-1">{row.text}</span>
+                  {row.time !== null && (
+                    <span className="flex gap-1 text-xs">
+                      <button onClick={(e) => { e.stopPropagation(); nudge(i, -NUDGE_MS); }} aria-label="Earlier">
+                        −
+                      </button>
+                      <button onClick={(e) => { e.stopPropagation(); nudge(i, NUDGE_MS); }} aria-label="Later">
+                        +
+                      </button>
+                    </span>
+                  )}
+                </div>
+              ) : (
+                <div key={i} className="h-3" />
+              )
+            )}
+          </div>
+
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-2">
+            <span className="flex gap-2">
+              <button
+                onClick={tap}
+                disabled={current === null}
+                className="px-6 py-2 rounded bg-yellow-400 hover:bg-yellow-500 text-black font-bold disabled:opacity-50"
+              >
+                Tap
+              </button>
+              <button onClick={undo} className="px-3 py-2 rounded bg-gray-200 dark:bg-gray-700">
+                Undo
+              </button>
+              <button onClick={() => setStep("edit")} className="px-3 py-2 rounded bg-gray-200 dark:bg-gray-700">
+                ← Edit text
+              </button>
+            </span>
+            <button
+              onClick={() => publish(true)}
+              disabled={!canPublish || isPublishing || !canSync}
+              className="px-4 py-2 rounded bg-teal-500 hover:bg-teal-700 text-white disabled:opacity-50"
+            >
+              Publish synced lyrics
+            </button>
+          </div>
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 text-right">
+            {missing > 0
+              ? `${missing} line${missing === 1 ? "" : "s"} still need a timestamp.`
+              : outOfOrder
+                ? "Some timestamps are out of order."
+                : "All lines are timed."}
+          </p>
+        </>
+      )}
+
+      {isPublishing && (
+        <p className="mt-3 text-sm text-gray-500 animate-pulse">
+          Publishing to LRCLIB… it asks for a proof-of-work first, which can take a minute.
+        </p>
+      )}
+      {!canPublish && (
+        <p className="mt-3 text-sm text-gray-600 dark:text-gray-400">Log in with Spotify to publish to LRCLIB.</p>
+      )}
+      {notice && <p className="mt-3 text-sm text-red-500">{notice}</p>}
+      <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+        Published lyrics are public on LRCLIB and shared with every app that uses it.
+      </p>
+    </div>
+  );
+}
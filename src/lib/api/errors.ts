@@ -0,0 +1,119 @@
+// src/lib/api/errors.ts
+
+import { NextResponse } from 'next/server';
+import axios from 'axios';
+import type { ApiErrorBody, ApiErrorCode } from '@/lib/api/types';
+import { UpstreamError, upstreamNames } from '@/lib/upstream';
+
+// Definimos la forma que puede tener un error lanzado por spotify-web-api-node
+export interface SpotifyError extends Error {
+  statusCode?: number;
+  body?: {
+    error?: {
+      message?: string;
+    };
+  };
+}
+
+// Type guard para errores de Spotify
+export function isSpotifyError(err: unknown): err is SpotifyError {
+  return (
+    typeof err === 'object' &&
+    err !== null &&
+    'statusCode' in err
+  );
+}
+
+const STATUS_BY_CODE: Record<ApiErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  rate_limited: 429,
+  upstream_error: 502,
+  upstream_unavailable: 503,
+  internal_error: 500,
+};
+
+export class ApiError extends Error {
+  constructor(
+    public code: ApiErrorCode,
+    message: string,
+    public upstream?: ApiErrorBody['error']['upstream'],
+    public upstreamStatus?: number,
+    // Segundos
+    public retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  get status(): number {
+    return STATUS_BY_CODE[this.code];
+  }
+
+  toBody(): ApiErrorBody {
+    return {
+      error: {
+        code: this.code,
+        message: this.message,
+        ...(this.upstream && { upstream: this.upstream }),
+        ...(this.upstreamStatus !== undefined && { upstreamStatus: this.upstreamStatus }),
+        ...(this.retryAfter !== undefined && { retryAfter: this.retryAfter }),
+      },
+    };
+  }
+}
+
+// Traduce cualquier error lanzado en una ruta a un ApiError con código estable.
+export function toApiError(err: unknown): ApiError {
+  if (err instanceof ApiError) return err;
+  // Fallos ya reintentados por la capa de upstream
+  if (err instanceof UpstreamError) {
+    if (err.failure === 'unavailable') {
+      const retryAfter = Math.ceil((err.retryAfterMs ?? 0) / 1000);
+      return new ApiError('upstream_unavailable', err.message, err.upstream, err.status, retryAfter);
+    }
+    return new ApiError('upstream_error', err.message, err.upstream, err.status);
+  }
+  if (isSpotifyError(err)) {
+    const status = err.statusCode ?? 500;
+    const message = err.body?.error?.message ?? err.message;
+    if (status === 401) {
+      return new ApiError('unauthorized', `Spotify session expired: ${message}`, 'spotify', status);
+    }
+    // Sesiones iniciadas antes de ampliar SPOTIFY_SCOPES no tienen acceso a la biblioteca
+    if (status === 403) {
+      return new ApiError(
+        'forbidden',
+        `Spotify denied access (${message}). Log in again to grant the required permissions.`,
+        'spotify',
+        status
+      );
+    }
+    if (status === 404) return new ApiError('not_found', message, 'spotify', status);
+    return new ApiError('upstream_error', `Spotify request failed: ${message}`, 'spotify', status);
+  }
+  // Respuestas de error que la capa de upstream no reintenta (4xx), de LRCLIB o del login de Spotify
+  if (axios.isAxiosError(err)) {
+    const status = err.response?.status;
+    const upstream = err.config?.url?.includes('spotify.com') ? 'spotify' : 'lrclib';
+    return new ApiError(
+      'upstream_error',
+      `${upstreamNames[upstream]} request failed (${status ? `HTTP ${status}` : err.code ?? 'no response'}).`,
+      upstream,
+      status
+    );
+  }
+  const message = err instanceof Error ? err.message : String(err);
+  return new ApiError('internal_error', `Internal error: ${message}`);
+}
+
+export function errorResponse(err: unknown): NextResponse<ApiErrorBody> {
+  const apiError = toApiError(err);
+  if (apiError.code === 'internal_error') console.error(err);
+  return NextResponse.json(apiError.toBody(), {
+    status: apiError.status,
+    ...(apiError.retryAfter !== undefined && { headers: { 'Retry-After': String(apiError.retryAfter) } }),
+  });
+}
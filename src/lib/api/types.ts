@@ -0,0 +1,270 @@
+// src/lib/api/types.ts
+
+// Tipos compartidos entre las rutas /api/v1/* y el cliente.
+
+import type { CardSize } from '@/lib/card/presets';
+import type { CardStyle } from '@/lib/card/style';
+import type { LrcTimeline } from '@/lib/lrc';
+import type { MatchQuality } from '@/lib/match';
+import type { LyricsCandidate, LyricsMatch } from '@/lib/providers/types';
+import type { TranslatorKind } from '@/lib/translators/types';
+
+// Qué letra tiene un resultado de búsqueda en los proveedores (sin comprobar = undefined)
+export type LyricsAvailability = 'synced' | 'plain' | 'instrumental' | 'none';
+
+export interface SearchResult {
+  id: string;
+  title: string;
+  artist: string;
+  album: string;
+  // Milisegundos, tal como los da Spotify
+  duration: number;
+  thumbnailUrl?: string;
+  // Portada a la mayor resolución disponible (paleta, exportaciones grandes)
+  coverUrl?: string;
+  previewUrl?: string;
+  explicit?: boolean;
+  lyrics?: LyricsAvailability;
+  // Búsqueda por letra: la línea (o dos seguidas, unidas con " / ") que contiene el fragmento
+  snippet?: string;
+}
+
+// --- Requests ---
+
+// 'tracks': título y artista; 'lyrics': un fragmento de la letra
+export type SearchMode = 'tracks' | 'lyrics';
+
+export interface SearchRequest {
+  mode: SearchMode;
+  // Texto libre; puede ir vacío si hay algún filtro (no en modo 'lyrics')
+  query: string;
+  artist?: string;
+  album?: string;
+  // "1999" o "1990-1999"
+  year?: string;
+  // Código ISO 3166-1 alfa-2 o "from_token"
+  market?: string;
+  limit: number;
+  offset: number;
+  // Comprobar en los proveedores si cada resultado tiene letra
+  availability: boolean;
+}
+
+export interface LyricsRequest {
+  trackName: string;
+  artistName: string;
+  albumName?: string;
+  // Milisegundos; opcional para la entrada manual
+  duration?: number;
+  // Elección manual de un candidato concreto de un proveedor
+  provider?: string;
+  candidateId?: number;
+  refresh: boolean;
+}
+
+// Texto paralelo de una letra: la misma consulta que /lyrics más el destino
+export interface TranslationRequest extends LyricsRequest {
+  // Código de idioma ("en", "pt-BR") o "romanized"
+  target: string;
+}
+
+export type LyricsExportFormat = 'txt' | 'lrc' | 'srt' | 'vtt' | 'json';
+
+// Descarga de la letra: la misma consulta que /lyrics más el formato
+export interface LyricsExportRequest extends LyricsRequest {
+  format: LyricsExportFormat;
+  // Desfase manual en ms (positivo = la letra aparece antes), como el del modo karaoke
+  offset: number;
+}
+
+// Letra corregida o sincronizada en el editor, para publicarla en LRCLIB
+export interface PublishRequest {
+  trackName: string;
+  artistName: string;
+  // LRCLIB exige álbum y duración
+  albumName: string;
+  // Milisegundos
+  duration: number;
+  plainLyrics: string;
+  // LRC; null = publicar solo el texto
+  syncedLyrics: string | null;
+}
+
+// Pista de una lista subida (CSV o JSON) para la búsqueda por lotes
+export interface BatchTrackInput {
+  trackName: string;
+  artistName: string;
+  albumName?: string;
+  // Milisegundos
+  duration?: number;
+}
+
+// Búsqueda de letras por lotes: una playlist o un álbum de Spotify, o una lista de pistas
+export type BatchRequest =
+  | { kind: 'playlist' | 'album'; id: string }
+  | { kind: 'tracks'; tracks: BatchTrackInput[] };
+
+// Paginación de las listas de la biblioteca de Spotify
+export interface PageRequest {
+  limit: number;
+  offset: number;
+}
+
+// Tarjeta renderizada en el servidor: canción por id de Spotify o por metadatos
+export interface CardRequest {
+  trackId?: string;
+  trackName?: string;
+  artistName?: string;
+  albumName?: string;
+  // Milisegundos
+  duration?: number;
+  // Solo portadas del CDN de Spotify
+  coverUrl?: string;
+  // Índices 0-based (parámetro `lines=3-5,9`, 1-based); se ignoran si hay `text`
+  lines: number[];
+  // Texto explícito, una entrada por línea
+  text?: string[];
+  // Con `lines`: destino de la traducción mostrada bajo cada línea (código de idioma o "romanized")
+  translation?: string;
+  style: CardStyle;
+  size: CardSize;
+  credit?: string;
+}
+
+// --- Responses ---
+
+export interface SearchResponse {
+  results: SearchResult[];
+  // De dónde salen los resultados: Spotify (usuario o token de aplicación) o LRCLIB
+  source: 'spotify' | 'lrclib';
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+export interface TrackResponse {
+  track: SearchResult;
+}
+
+// Recientes, guardadas y pistas de una playlist
+export interface TrackListResponse {
+  results: SearchResult[];
+  total: number;
+}
+
+export interface PlaylistSummary {
+  id: string;
+  name: string;
+  owner: string;
+  trackCount: number;
+  imageUrl?: string;
+}
+
+export interface PlaylistsResponse {
+  playlists: PlaylistSummary[];
+  total: number;
+}
+
+export interface NowPlayingResponse {
+  // null si no suena nada o suena un podcast/anuncio
+  track: SearchResult | null;
+  isPlaying: boolean;
+  progressMs: number;
+  // Epoch ms en que Spotify midió el progreso
+  timestamp: number;
+}
+
+export interface LyricsResponse {
+  // 'none' = no encontrada; 'instrumental' = el registro dice que la pista no tiene letra
+  status: LyricsAvailability;
+  lyrics: string | null;
+  source: string | null;
+  attribution?: string;
+  message?: string;
+  isSynced?: boolean;
+  synced?: LrcTimeline | null;
+  match: LyricsMatch | null;
+  // Cómo encaja `match` con la pista pedida; null sin registro emparejado
+  quality: MatchQuality | null;
+  candidates: LyricsCandidate[];
+}
+
+export interface TranslationResponse {
+  target: string;
+  kind: TranslatorKind;
+  source: string;
+  attribution: string;
+  // Alineadas con las líneas mostradas de la letra; null = sin texto paralelo
+  lines: (string | null)[];
+}
+
+// Formato `json` de /lyrics/export
+export interface LyricsExportJson {
+  title: string;
+  artist: string;
+  album: string | null;
+  // Milisegundos
+  duration: number | null;
+  source: string | null;
+  attribution: string | null;
+  synced: boolean;
+  // Tiempos en ms; null en letra sin sincronizar (y `end` en las líneas vacías)
+  lines: { text: string; start: number | null; end: number | null }[];
+}
+
+// Resultado de una pista del lote; 'error' = la consulta falló
+export type BatchTrackStatus = LyricsAvailability | 'error';
+
+// Eventos de /lyrics/batch, un objeto JSON por línea (NDJSON)
+export type BatchEvent =
+  // `name`: nombre de la playlist o el álbum; `truncated`: la lista pasaba del máximo por lote
+  | { type: 'start'; name: string | null; total: number; truncated: boolean }
+  | {
+      type: 'track';
+      // Posición en la lista; las pistas terminan en cualquier orden
+      index: number;
+      track: SearchResult;
+      status: BatchTrackStatus;
+      source: string | null;
+      // Archivo .lrc, solo con letra sincronizada
+      lrc?: string;
+      message?: string;
+    }
+  | { type: 'done'; counts: Record<BatchTrackStatus, number> };
+
+export interface PublishResponse {
+  published: true;
+  synced: boolean;
+}
+
+export interface SessionResponse {
+  authenticated: boolean;
+  // Epoch ms de caducidad del access token actual
+  expiresAt?: number;
+}
+
+export type ApiErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  // Sesión válida pero sin el permiso (scope) necesario
+  | 'forbidden'
+  | 'not_found'
+  // Demasiadas peticiones del mismo cliente; lleva Retry-After
+  | 'rate_limited'
+  | 'upstream_error'
+  // Servicio externo caído o limitando peticiones: se responde en el acto con Retry-After
+  | 'upstream_unavailable'
+  | 'internal_error';
+
+// Forma única de error para todas las rutas v1
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    // Servicio externo que falló y su código HTTP, si aplica
+    upstream?: 'spotify' | 'lrclib';
+    upstreamStatus?: number;
+    // Segundos hasta que tiene sentido reintentar (también en la cabecera Retry-After)
+    retryAfter?: number;
+  };
+}
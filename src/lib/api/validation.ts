@@ -0,0 +1,320 @@
+// src/lib/api/validation.ts
+
+// Validación en tiempo de ejecución de los parámetros de /api/v1/*.
+// Cada parser devuelve el request tipado o lanza un ApiError 'invalid_request'.
+
+import { ApiError } from '@/lib/api/errors';
+import type {
+  BatchRequest,
+  BatchTrackInput,
+  CardRequest,
+  LyricsExportFormat,
+  LyricsExportRequest,
+  LyricsRequest,
+  PageRequest,
+  PublishRequest,
+  SearchMode,
+  SearchRequest,
+  TranslationRequest,
+} from '@/lib/api/types';
+import { exportPresets, MAX_CUSTOM_SIZE, MIN_CUSTOM_SIZE } from '@/lib/card/presets';
+import { defaultCardStyle } from '@/lib/card/style';
+import { decodeCardStyle, parseLineRanges, SPOTIFY_ID_RE } from '@/lib/deepLink';
+import { parseLrc } from '@/lib/lrc';
+import { ROMANIZED_TARGET } from '@/lib/romanize';
+import { MAX_SELECTED_LINES_LIMIT } from '@/lib/selection';
+import { MAX_BATCH_TRACKS, parseTrackListCsv, parseTrackListJson } from '@/lib/trackList';
+
+const MAX_SEARCH_LIMIT = 50;
+// Spotify no pagina más allá de 1000 resultados
+const MAX_SEARCH_OFFSET = 1000;
+const SEARCH_MODES: SearchMode[] = ['tracks', 'lyrics'];
+// Un fragmento más corto aparece en casi cualquier letra
+const MIN_LYRICS_QUERY_LENGTH = 6;
+const YEAR_RE = /^\d{4}(-\d{4})?$/;
+const MARKET_RE = /^([A-Z]{2}|from_token)$/;
+const MAX_CARD_TEXT_LINES = 40;
+const LINE_RANGES_RE = /^\d+(-\d+)?(,\d+(-\d+)?)*$/;
+const LYRICS_EXPORT_FORMATS: LyricsExportFormat[] = ['txt', 'lrc', 'srt', 'vtt', 'json'];
+// Mismo margen que permite de sobra el ajuste de desfase del modo karaoke
+const MAX_EXPORT_OFFSET_MS = 60_000;
+const MAX_PUBLISH_LYRICS_LENGTH = 20_000;
+// Código de idioma BCP 47 simplificado: "en", "pt-BR"
+const LANGUAGE_RE = /^[a-z]{2,3}(-[A-Z]{2})?$/;
+const SPOTIFY_COVER_HOST = 'i.scdn.co';
+
+function requiredString(params: URLSearchParams, name: string): string {
+  const value = params.get(name)?.trim();
+  if (!value) throw new ApiError('invalid_request', `Missing required parameter \`${name}\`.`);
+  return value;
+}
+
+function optionalString(params: URLSearchParams, name: string): string | undefined {
+  return params.get(name)?.trim() || undefined;
+}
+
+function optionalInt(
+  params: URLSearchParams,
+  name: string,
+  { min, max }: { min: number; max?: number }
+): number | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw === '') return undefined;
+  if (!/^-?\d+$/.test(raw)) {
+    throw new ApiError('invalid_request', `Parameter \`${name}\` must be an integer.`);
+  }
+  const value = parseInt(raw, 10);
+  if (value < min || (max !== undefined && value > max)) {
+    const range = max !== undefined ? `between ${min} and ${max}` : `>= ${min}`;
+    throw new ApiError('invalid_request', `Parameter \`${name}\` must be ${range}.`);
+  }
+  return value;
+}
+
+export function parseSearchRequest(params: URLSearchParams): SearchRequest {
+  const mode = params.get('mode') ?? 'tracks';
+  if (!SEARCH_MODES.includes(mode as SearchMode)) {
+    throw new ApiError('invalid_request', `Parameter \`mode\` must be one of: ${SEARCH_MODES.join(', ')}.`);
+  }
+  const query = optionalString(params, 'query') ?? '';
+  const artist = optionalString(params, 'artist');
+  const album = optionalString(params, 'album');
+  const year = optionalString(params, 'year');
+  if (mode === 'lyrics' && query.length < MIN_LYRICS_QUERY_LENGTH) {
+    throw new ApiError(
+      'invalid_request',
+      `Lyrics search needs a \`query\` of at least ${MIN_LYRICS_QUERY_LENGTH} characters.`
+    );
+  }
+  if (!query && !artist && !album && !year) {
+    throw new ApiError('invalid_request', 'Missing required parameter `query` (or a filter: `artist`, `album`, `year`).');
+  }
+  if (year !== undefined && !YEAR_RE.test(year)) {
+    throw new ApiError('invalid_request', 'Parameter `year` must look like `1999` or `1990-1999`.');
+  }
+  const market = optionalString(params, 'market');
+  if (market !== undefined && !MARKET_RE.test(market)) {
+    throw new ApiError('invalid_request', 'Parameter `market` must be a two-letter country code or `from_token`.');
+  }
+  return {
+    mode: mode as SearchMode,
+    query,
+    artist,
+    album,
+    year,
+    market,
+    limit: optionalInt(params, 'limit', { min: 1, max: MAX_SEARCH_LIMIT }) ?? 10,
+    offset: optionalInt(params, 'offset', { min: 0, max: MAX_SEARCH_OFFSET }) ?? 0,
+    availability: params.get('availability') === '1',
+  };
+}
+
+export function parseLyricsRequest(params: URLSearchParams): LyricsRequest {
+  const duration = optionalInt(params, 'duration', { min: 1 });
+  const provider = optionalString(params, 'provider');
+  const candidateId = optionalInt(params, 'candidateId', { min: 0 });
+  if ((provider === undefined) !== (candidateId === undefined)) {
+    throw new ApiError('invalid_request', '`provider` and `candidateId` must be given together.');
+  }
+  return {
+    trackName: requiredString(params, 'trackName'),
+    artistName: requiredString(params, 'artistName'),
+    albumName: optionalString(params, 'albumName'),
+    duration,
+    provider,
+    candidateId,
+    refresh: params.get('refresh') === '1',
+  };
+}
+
+export function parseLyricsExportRequest(params: URLSearchParams): LyricsExportRequest {
+  const format = params.get('format') ?? 'lrc';
+  if (!LYRICS_EXPORT_FORMATS.includes(format as LyricsExportFormat)) {
+    throw new ApiError('invalid_request', `Parameter \`format\` must be one of: ${LYRICS_EXPORT_FORMATS.join(', ')}.`);
+  }
+  return {
+    ...parseLyricsRequest(params),
+    format: format as LyricsExportFormat,
+    offset: optionalInt(params, 'offset', { min: -MAX_EXPORT_OFFSET_MS, max: MAX_EXPORT_OFFSET_MS }) ?? 0,
+  };
+}
+
+function checkTranslationTarget(name: string, target: string): string {
+  if (target !== ROMANIZED_TARGET && !LANGUAGE_RE.test(target)) {
+    throw new ApiError('invalid_request', `Parameter \`${name}\` must be a language code like \`en\` or \`${ROMANIZED_TARGET}\`.`);
+  }
+  return target;
+}
+
+export function parseTranslationRequest(params: URLSearchParams): TranslationRequest {
+  const target = requiredString(params, 'target');
+  return { ...parseLyricsRequest(params), target: checkTranslationTarget('target', target) };
+}
+
+// El cuerpo JSON de /lyrics/publish
+export function parsePublishRequest(body: unknown): PublishRequest {
+  const input = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  const text = (name: string, required: boolean): string => {
+    const value = typeof input[name] === 'string' ? (input[name] as string).trim() : '';
+    if (required && !value) throw new ApiError('invalid_request', `Missing required field \`${name}\`.`);
+    if (value.length > MAX_PUBLISH_LYRICS_LENGTH) {
+      throw new ApiError('invalid_request', `Field \`${name}\` is longer than ${MAX_PUBLISH_LYRICS_LENGTH} characters.`);
+    }
+    return value;
+  };
+
+  const duration = input.duration;
+  if (typeof duration !== 'number' || !Number.isInteger(duration) || duration < 1000) {
+    throw new ApiError('invalid_request', 'Field `duration` must be the track length in milliseconds.');
+  }
+  const syncedLyrics = text('syncedLyrics', false) || null;
+  if (syncedLyrics && parseLrc(syncedLyrics).lines.length === 0) {
+    throw new ApiError('invalid_request', 'Field `syncedLyrics` has no timestamped lines.');
+  }
+  return {
+    trackName: text('trackName', true),
+    artistName: text('artistName', true),
+    albumName: text('albumName', true),
+    duration,
+    plainLyrics: text('plainLyrics', true),
+    syncedLyrics,
+  };
+}
+
+export function parseSpotifyId(id: string | undefined, kind: 'track' | 'playlist' | 'album' = 'track'): string {
+  if (!id || !SPOTIFY_ID_RE.test(id)) {
+    throw new ApiError('invalid_request', `Invalid Spotify ${kind} id.`);
+  }
+  return id;
+}
+
+// Cuerpo de /lyrics/batch: JSON con `playlistId`, `albumId` o una lista de pistas, o un CSV
+export function parseBatchRequest(body: string, contentType: string | null): BatchRequest {
+  let tracks: BatchTrackInput[];
+  if (contentType?.includes('text/csv')) {
+    tracks = parseTrackListCsv(body);
+  } else {
+    let json: unknown;
+    try {
+      json = JSON.parse(body);
+    } catch {
+      throw new ApiError('invalid_request', 'Request body must be JSON or CSV (`Content-Type: text/csv`).');
+    }
+    const input = (typeof json === 'object' && json !== null ? json : {}) as Record<string, unknown>;
+    if ('playlistId' in input) return { kind: 'playlist', id: parseSpotifyId(String(input.playlistId), 'playlist') };
+    if ('albumId' in input) return { kind: 'album', id: parseSpotifyId(String(input.albumId), 'album') };
+    tracks = parseTrackListJson(json);
+  }
+  if (tracks.length === 0) throw new ApiError('invalid_request', 'The track list is empty.');
+  if (tracks.length > MAX_BATCH_TRACKS) {
+    throw new ApiError('invalid_request', `A batch can have at most ${MAX_BATCH_TRACKS} tracks.`);
+  }
+  return { kind: 'tracks', tracks };
+}
+
+// Spotify limita las páginas de la biblioteca a 50 elementos
+export function parsePageRequest(params: URLSearchParams): PageRequest {
+  return {
+    limit: optionalInt(params, 'limit', { min: 1, max: MAX_SEARCH_LIMIT }) ?? 20,
+    offset: optionalInt(params, 'offset', { min: 0 }) ?? 0,
+  };
+}
+
+// Rangos 1-based como `3-5,9`; parseLineRanges descarta en silencio lo que no entiende
+function checkLineRanges(params: URLSearchParams, name: string): number[] {
+  const raw = params.get(name)?.replace(/\s+/g, '');
+  if (!raw) return [];
+  const invalid = () =>
+    new ApiError('invalid_request', `Parameter \`${name}\` must be line numbers from 1 or ranges, e.g. \`3-5,9\`.`);
+  if (!LINE_RANGES_RE.test(raw)) throw invalid();
+  for (const part of raw.split(',')) {
+    const [from, to = from] = part.split('-').map((n) => parseInt(n, 10));
+    if (from < 1 || to < from) throw invalid();
+  }
+  const lines = parseLineRanges(raw, MAX_SELECTED_LINES_LIMIT + 1);
+  if (lines.length > MAX_SELECTED_LINES_LIMIT) {
+    throw new ApiError('invalid_request', `At most ${MAX_SELECTED_LINES_LIMIT} lines can be selected in \`${name}\`.`);
+  }
+  return lines;
+}
+
+export function parseCardRequest(params: URLSearchParams): CardRequest {
+  const trackId = optionalString(params, 'trackId');
+  if (trackId !== undefined) parseSpotifyId(trackId);
+
+  const text = params.getAll('text').flatMap((t) => t.split('\n'));
+  const lines = checkLineRanges(params, 'lines');
+  if (!text.length && !lines.length) {
+    throw new ApiError('invalid_request', 'Provide `lines` (e.g. `3-5,9`) or `text`.');
+  }
+  if (text.length > MAX_CARD_TEXT_LINES) {
+    throw new ApiError('invalid_request', `At most ${MAX_CARD_TEXT_LINES} lines of \`text\` are allowed.`);
+  }
+
+  const rawStyle = params.get('style');
+  const style = rawStyle ? decodeCardStyle(rawStyle) : defaultCardStyle;
+  if (!style) throw new ApiError('invalid_request', 'Parameter `style` is not a valid encoded card style.');
+
+  // El preset por defecto es el de Twitter, que sirve también como imagen Open Graph
+  const presetId = params.get('preset') ?? 'twitter';
+  const preset = exportPresets.find((p) => p.id === presetId && p.size);
+  if (!preset) {
+    const ids = exportPresets.filter((p) => p.size).map((p) => p.id).join(', ');
+    throw new ApiError('invalid_request', `Parameter \`preset\` must be one of: ${ids}.`);
+  }
+  const size =
+    preset.id === 'custom'
+      ? {
+        width: optionalInt(params, 'width', { min: MIN_CUSTOM_SIZE, max: MAX_CUSTOM_SIZE }) ?? preset.size!.width,
+        height: optionalInt(params, 'height', { min: MIN_CUSTOM_SIZE, max: MAX_CUSTOM_SIZE }) ?? preset.size!.height,
+      }
+      : preset.size!;
+
+  // Solo PNG: satori no expone su SVG en next/og y un SVG que envuelva el PNG no aporta nada
+  const format = params.get('format') ?? 'png';
+  if (format !== 'png') throw new ApiError('invalid_request', 'Parameter `format` must be `png`.');
+
+  const translation = optionalString(params, 'translation');
+  if (translation !== undefined) checkTranslationTarget('translation', translation);
+
+  const coverUrl = optionalString(params, 'coverUrl');
+  if (coverUrl !== undefined) {
+    let url: URL | null = null;
+    try {
+      url = new URL(coverUrl);
+    } catch {
+      // se trata abajo
+    }
+    if (!url || url.protocol !== 'https:' || url.hostname !== SPOTIFY_COVER_HOST) {
+      throw new ApiError('invalid_request', `Parameter \`coverUrl\` must be an https://${SPOTIFY_COVER_HOST} image.`);
+    }
+  }
+
+  return {
+    trackId,
+    // Sin trackId los metadatos son obligatorios
+    trackName: trackId ? optionalString(params, 'trackName') : requiredString(params, 'trackName'),
+    artistName: trackId ? optionalString(params, 'artistName') : requiredString(params, 'artistName'),
+    albumName: optionalString(params, 'albumName'),
+    duration: optionalInt(params, 'duration', { min: 1 }),
+    coverUrl,
+    lines,
+    text: text.length ? text : undefined,
+    translation,
+    style,
+    size,
+    credit: optionalString(params, 'credit'),
+  };
+}
+
+// `lines` de la tarjeta frente a la letra encontrada, que solo se conoce tras buscarla
+export function checkCardLines(lines: number[], lyricsLength: number): number[] {
+  const outside = lines.find((i) => i >= lyricsLength);
+  if (outside !== undefined) {
+    throw new ApiError(
+      'invalid_request',
+      `Parameter \`lines\` is out of range: line ${outside + 1} was requested, the lyrics have ${lyricsLength} lines.`
+    );
+  }
+  return lines;
+}
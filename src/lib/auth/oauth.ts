@@ -0,0 +1,120 @@
+// src/lib/auth/oauth.ts
+
+// Authorization Code + PKCE contra accounts.spotify.com (sin client secret).
+
+import { createHash, randomBytes } from 'crypto';
+import axios from 'axios';
+import { APP_USER_AGENT, callUpstream } from '@/lib/upstream';
+
+const AUTHORIZE_URL = 'https://accounts.spotify.com/authorize';
+const TOKEN_URL = 'https://accounts.spotify.com/api/token';
+// Perfil, reproducción actual/reciente, canciones guardadas y playlists
+export const SPOTIFY_SCOPES = [
+  'user-read-private',
+  'user-read-email',
+  'user-read-currently-playing',
+  'user-read-recently-played',
+  'user-library-read',
+  'playlist-read-private',
+  'playlist-read-collaborative',
+].join(' ');
+
+export interface SpotifyTokens {
+  accessToken: string;
+  refreshToken: string;
+  // Epoch ms
+  expiresAt: number;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+}
+
+export function getClientId(): string {
+  const clientId = process.env.SPOTIFY_CLIENT_ID || process.env.NEXT_PUBLIC_SPOTIFY_CLIENT_ID;
+  if (!clientId) throw new Error('SPOTIFY_CLIENT_ID is not configured.');
+  return clientId;
+}
+
+// Redirect URI configurada, o /callback en el mismo origen
+export function getRedirectUri(origin: string): string {
+  return (
+    process.env.SPOTIFY_REDIRECT_URI ||
+    process.env.NEXT_PUBLIC_SPOTIFY_REDIRECT_URI ||
+    `${origin}/callback`
+  );
+}
+
+export function generateCodeVerifier(): string {
+  return randomBytes(64).toString('base64url');
+}
+
+export function generateState(): string {
+  return randomBytes(16).toString('base64url');
+}
+
+export function codeChallenge(verifier: string): string {
+  return createHash('sha256').update(verifier).digest('base64url');
+}
+
+export function buildAuthorizeUrl(origin: string, verifier: string, state: string): string {
+  return `${AUTHORIZE_URL}?${new URLSearchParams({
+    response_type: 'code',
+    client_id: getClientId(),
+    scope: SPOTIFY_SCOPES,
+    redirect_uri: getRedirectUri(origin),
+    code_challenge_method: 'S256',
+    code_challenge: codeChallenge(verifier),
+    state,
+  })}`;
+}
+
+async function requestToken(body: Record<string, string>, previousRefresh?: string): Promise<SpotifyTokens> {
+  // Ni el canje del código ni la rotación del refresh token se pueden repetir sin riesgo
+  const { data } = await callUpstream(
+    'spotify',
+    (signal) =>
+      axios.post<TokenResponse>(TOKEN_URL, new URLSearchParams(body), {
+        signal,
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'User-Agent': APP_USER_AGENT },
+      }),
+    { idempotent: false }
+  );
+  // Spotify puede no rotar el refresh token; en ese caso se conserva el anterior
+  const refreshToken = data.refresh_token ?? previousRefresh;
+  if (!refreshToken) throw new Error('Spotify did not return a refresh token.');
+  return {
+    accessToken: data.access_token,
+    refreshToken,
+    expiresAt: Date.now() + data.expires_in * 1000,
+  };
+}
+
+export function exchangeCode(code: string, verifier: string, origin: string): Promise<SpotifyTokens> {
+  return requestToken({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: getRedirectUri(origin),
+    client_id: getClientId(),
+    code_verifier: verifier,
+  });
+}
+
+// Spotify rechaza el refresh token (revocado, caducado o ya rotado): la sesión no tiene arreglo.
+// Cualquier otro fallo es transitorio y no debe cerrar la sesión.
+export function isRejectedRefresh(err: unknown): boolean {
+  return axios.isAxiosError(err) && err.response?.status === 400;
+}
+
+export function refreshTokens(refreshToken: string): Promise<SpotifyTokens> {
+  return requestToken(
+    {
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+      client_id: getClientId(),
+    },
+    refreshToken
+  );
+}
@@ -0,0 +1,116 @@
+// src/lib/auth/session.ts
+
+// Sesión de Spotify en una cookie HTTP-only cifrada (AES-256-GCM), renovada de forma transparente.
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { cookies } from 'next/headers';
+import { isRejectedRefresh, refreshTokens, type SpotifyTokens } from '@/lib/auth/oauth';
+
+export const SESSION_COOKIE = 'lf_session';
+export const PKCE_COOKIE = 'lf_pkce';
+// Renovar un poco antes de que caduque el access token
+const REFRESH_MARGIN_MS = 60 * 1000;
+const SESSION_MAX_AGE_S = 60 * 60 * 24 * 30;
+// Cuánto se reutiliza una renovación ya hecha: peticiones que salieron con la cookie anterior
+// no deben gastar otra vez un refresh token que Spotify acaba de rotar
+const REFRESH_REUSE_MS = 30 * 1000;
+
+// Guardado entre /api/auth/login y /callback
+export interface PkceState {
+  verifier: string;
+  state: string;
+}
+
+let fallbackSecret: string | null = null;
+
+function sessionKey(): Buffer {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    if (!fallbackSecret) {
+      console.warn('SESSION_SECRET is not set; sessions will not survive a server restart.');
+      fallbackSecret = randomBytes(32).toString('hex');
+    }
+    secret = fallbackSecret;
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+export function seal(value: unknown): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', sessionKey(), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), data]).toString('base64url');
+}
+
+export function unseal<T>(token: string | undefined): T | null {
+  if (!token) return null;
+  try {
+    const raw = Buffer.from(token, 'base64url');
+    const decipher = createDecipheriv('aes-256-gcm', sessionKey(), raw.subarray(0, 12));
+    decipher.setAuthTag(raw.subarray(12, 28));
+    const data = Buffer.concat([decipher.update(raw.subarray(28)), decipher.final()]);
+    return JSON.parse(data.toString('utf8')) as T;
+  } catch {
+    // Cookie manipulada o secreto rotado: se trata como sin sesión
+    return null;
+  }
+}
+
+export const cookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+};
+
+export async function saveSession(tokens: SpotifyTokens): Promise<void> {
+  (await cookies()).set(SESSION_COOKIE, seal(tokens), {
+    ...cookieOptions,
+    maxAge: SESSION_MAX_AGE_S,
+  });
+}
+
+export async function clearSession(): Promise<void> {
+  (await cookies()).delete(SESSION_COOKIE);
+}
+
+// Renovaciones en curso o recién hechas, por refresh token: varias peticiones simultáneas de
+// la misma sesión comparten una sola llamada a Spotify
+const refreshes = new Map<string, Promise<SpotifyTokens>>();
+
+function sharedRefresh(refreshToken: string): Promise<SpotifyTokens> {
+  let refresh = refreshes.get(refreshToken);
+  if (!refresh) {
+    refresh = refreshTokens(refreshToken);
+    refreshes.set(refreshToken, refresh);
+    refresh.then(
+      () => setTimeout(() => refreshes.delete(refreshToken), REFRESH_REUSE_MS),
+      () => refreshes.delete(refreshToken)
+    );
+  }
+  return refresh;
+}
+
+// Tokens de la sesión actual, renovando el access token si está a punto de caducar.
+// Solo puede llamarse desde Route Handlers (necesita escribir la cookie).
+// Si Spotify falla sin rechazar el token, la sesión se conserva: se usa el access token
+// mientras no haya caducado y, si ya caducó, el error se propaga para reintentar más tarde.
+export async function getSession(): Promise<SpotifyTokens | null> {
+  const store = await cookies();
+  const tokens = unseal<SpotifyTokens>(store.get(SESSION_COOKIE)?.value);
+  if (!tokens) return null;
+  if (tokens.expiresAt - REFRESH_MARGIN_MS > Date.now()) return tokens;
+
+  try {
+    const renewed = await sharedRefresh(tokens.refreshToken);
+    await saveSession(renewed);
+    return renewed;
+  } catch (err: unknown) {
+    if (isRejectedRefresh(err)) {
+      await clearSession();
+      return null;
+    }
+    if (tokens.expiresAt > Date.now()) return tokens;
+    throw err;
+  }
+}
@@ -0,0 +1,101 @@
+// src/lib/batch.ts
+
+// Búsqueda de letras por lotes (playlist, álbum o lista subida): pocas pistas a la vez, avisando
+// de cada una según termina. El ritmo de llamadas a LRCLIB lo limita la capa común (upstream).
+
+import type { BatchEvent, BatchTrackInput, BatchTrackStatus, LyricsRequest, SearchResult } from '@/lib/api/types';
+import { getLyrics } from '@/lib/lyrics';
+import { exportLyrics } from '@/lib/lyricsExport';
+import { UpstreamError } from '@/lib/upstream';
+
+const BATCH_CONCURRENCY = 3;
+// Pausa máxima del lote cuando LRCLIB pide esperar (circuito abierto o Retry-After)
+const MAX_BATCH_PAUSE_MS = 60_000;
+
+export function emptyBatchCounts(): Record<BatchTrackStatus, number> {
+  return { synced: 0, plain: 0, instrumental: 0, none: 0, error: 0 };
+}
+
+// Pista de una lista subida con la forma de un resultado de búsqueda; el id incluye el lote
+// para que pistas de dos subidas distintas no se pisen en el historial
+export function uploadedTrack(input: BatchTrackInput, index: number, batchId: number): SearchResult {
+  return {
+    id: `upload-${batchId}-${index + 1}`,
+    title: input.trackName,
+    artist: input.artistName,
+    album: input.albumName ?? '',
+    duration: input.duration ?? 0,
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Con el servicio caído o limitando, el lote espera lo que se le pide y repite la pista una vez
+// en lugar de marcar como fallidas todas las que quedan
+async function getLyricsPatiently(req: LyricsRequest, signal?: AbortSignal) {
+  try {
+    return await getLyrics(req);
+  } catch (err: unknown) {
+    const wait = err instanceof UpstreamError && err.failure === 'unavailable' ? err.retryAfterMs : undefined;
+    if (wait === undefined || wait > MAX_BATCH_PAUSE_MS) throw err;
+    await sleep(wait);
+    if (signal?.aborted) throw err;
+    return getLyrics(req);
+  }
+}
+
+// Resuelve la letra de cada pista y emite un evento 'track' por pista y uno 'done' al final.
+// Pasa por la caché de letras, así que repetir un lote (o abrir luego una pista) es inmediato.
+export async function runBatch(
+  tracks: SearchResult[],
+  emit: (event: BatchEvent) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const counts = emptyBatchCounts();
+  let next = 0;
+
+  const worker = async () => {
+    while (next < tracks.length && !signal?.aborted) {
+      const index = next++;
+      const track = tracks[index];
+      let event: Extract<BatchEvent, { type: 'track' }>;
+      try {
+        const { body } = await getLyricsPatiently(
+          {
+            trackName: track.title,
+            artistName: track.artist,
+            albumName: track.album || undefined,
+            duration: track.duration > 0 ? track.duration : undefined,
+            refresh: false,
+          },
+          signal
+        );
+        const status = body.status;
+        const file =
+          status === 'synced'
+            ? exportLyrics(
+              {
+                title: track.title,
+                artist: track.artist,
+                album: track.album || undefined,
+                // Listas subidas sin duración: la del registro encontrado (en segundos)
+                duration: track.duration || (body.match?.duration ? body.match.duration * 1000 : undefined),
+                lyrics: body,
+              },
+              'lrc'
+            )
+            : null;
+        event = { type: 'track', index, track: { ...track, lyrics: status }, status, source: body.source, ...(file && { lrc: file.content }) };
+      } catch (err: unknown) {
+        event = { type: 'track', index, track, status: 'error', source: null, message: err instanceof Error ? err.message : String(err) };
+      }
+      counts[event.status]++;
+      if (!signal?.aborted) emit(event);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, tracks.length) }, worker));
+  if (!signal?.aborted) emit({ type: 'done', counts });
+}
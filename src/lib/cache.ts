@@ -0,0 +1,150 @@
+// src/lib/cache.ts
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { normalizeText, type TrackMeta } from '@/lib/match';
+
+export type CacheStatus = 'HIT' | 'NEGATIVE-HIT' | 'MISS' | 'BYPASS';
+
+export interface CacheEntry<T> {
+  value: T;
+  // true = entrada de "no encontrado"
+  negative: boolean;
+  storedAt: number;
+  expiresAt: number;
+}
+
+// Almacén persistente opcional (p. ej. un JSON en disco) que sobrevive a reinicios.
+export interface CacheStore<T> {
+  load(): Promise<Array<[string, CacheEntry<T>]>>;
+  save(entries: Array<[string, CacheEntry<T>]>): Promise<void>;
+}
+
+export interface TtlCacheOptions<T> {
+  maxEntries: number;
+  ttlMs: number;
+  negativeTtlMs: number;
+  store?: CacheStore<T>;
+}
+
+export interface TtlCache<T> {
+  get(key: string): Promise<CacheEntry<T> | null>;
+  set(key: string, value: T, negative: boolean): Promise<void>;
+  // Borra todas las entradas cuya clave empieza por el prefijo
+  deletePrefix(prefix: string): Promise<void>;
+}
+
+// LRU en memoria (Map conserva el orden de inserción) con TTL distinto para positivos y negativos.
+export function createTtlCache<T>(options: TtlCacheOptions<T>): TtlCache<T> {
+  const entries = new Map<string, CacheEntry<T>>();
+  let loaded: Promise<void> | null = null;
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const ensureLoaded = () => {
+    if (!options.store) return Promise.resolve();
+    loaded ??= options.store
+      .load()
+      .then((stored) => {
+        const now = Date.now();
+        for (const [key, entry] of stored) {
+          if (entry.expiresAt > now) entries.set(key, entry);
+        }
+        evict();
+      })
+      .catch((err: unknown) => console.warn('Could not load lyrics cache store:', err));
+    return loaded;
+  };
+
+  const evict = () => {
+    while (entries.size > options.maxEntries) {
+      const oldest = entries.keys().next().value;
+      if (oldest === undefined) break;
+      entries.delete(oldest);
+    }
+  };
+
+  // Escrituras agrupadas para no reescribir el archivo en cada petición
+  const scheduleSave = () => {
+    const store = options.store;
+    if (!store || saveTimer) return;
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      store
+        .save([...entries])
+        .catch((err: unknown) => console.warn('Could not persist lyrics cache:', err));
+    }, 1000);
+  };
+
+  return {
+    async get(key) {
+      await ensureLoaded();
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      // Refrescar posición LRU
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry;
+    },
+
+    async set(key, value, negative) {
+      await ensureLoaded();
+      const now = Date.now();
+      entries.delete(key);
+      entries.set(key, {
+        value,
+        negative,
+        storedAt: now,
+        expiresAt: now + (negative ? options.negativeTtlMs : options.ttlMs),
+      });
+      evict();
+      scheduleSave();
+    },
+
+    async deletePrefix(prefix) {
+      await ensureLoaded();
+      const keys = [...entries.keys()].filter((key) => key.startsWith(prefix));
+      keys.forEach((key) => entries.delete(key));
+      if (keys.length) scheduleSave();
+    },
+  };
+}
+
+export function createFileStore<T>(file: string): CacheStore<T> {
+  return {
+    async load() {
+      try {
+        return JSON.parse(await fs.readFile(file, 'utf8'));
+      } catch (err: unknown) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw err;
+      }
+    },
+    async save(entries) {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      // Escritura atómica: archivo temporal + rename
+      const tmp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(entries));
+      await fs.rename(tmp, file);
+    },
+  };
+}
+
+// Prefijo común a las claves de una pista, con cualquier álbum, duración o candidato
+export function lyricsTrackPrefix(meta: Pick<TrackMeta, 'trackName' | 'artistName'>): string {
+  return `${normalizeText(meta.trackName)}|${normalizeText(meta.artistName)}|`;
+}
+
+// Clave estable frente a mayúsculas, acentos y puntuación.
+export function lyricsCacheKey(meta: TrackMeta, extra: string[] = []): string {
+  return [
+    normalizeText(meta.trackName),
+    normalizeText(meta.artistName),
+    normalizeText(meta.albumName ?? ''),
+    meta.duration ?? '',
+    ...extra,
+  ].join('|');
+}
@@ -0,0 +1,109 @@
+// src/lib/card/layout.ts
+
+// Medidas y colores de cada layout de la tarjeta. Las usan tanto ShareCard (modal, html-to-image)
+// como el render del servidor (/api/v1/card), para que ambas imágenes salgan iguales.
+
+import type { SearchResult } from '@/lib/api/types';
+import type { CardPalette } from '@/lib/card/palette';
+import { cardScale, isLandscape, type CardSize } from '@/lib/card/presets';
+import {
+  backgroundCss,
+  borderColorFor,
+  layoutShowsCover,
+  textColorFor,
+  type CardStyle,
+  type CardTextAlign,
+} from '@/lib/card/style';
+
+// Velo sobre la portada desenfocada del layout 'cover-background'
+export const COVER_OVERLAY = 'rgba(0, 0, 0, 0.45)';
+
+export interface CardMetrics {
+  // Factor de escala respecto a la tarjeta natural
+  u: number;
+  landscape: boolean;
+  hasCover: boolean;
+  // Portada junto al texto (cover-left / cover-right)
+  sideCover: boolean;
+  // Dirección del contenedor en tarjetas con tamaño fijo
+  direction: 'row' | 'row-reverse' | 'column';
+  background: string;
+  color: string;
+  border: string;
+  padding: number;
+  gap: number;
+  coverSize: number;
+  coverRadius: number;
+  coverBorder: number;
+  coverBlur: number;
+  titleSize: number;
+  titleGap: number;
+  metaSize: number;
+  metaGap: number;
+  bodyTop: number;
+  lineSize: number;
+  lineGap: number;
+  // Línea secundaria (traducción) bajo cada línea de letra
+  secondarySize: number;
+  quoteMarkSize: number;
+  attributionSize: number;
+  creditSize: number;
+  creditGap: number;
+  creditAlign: CardTextAlign;
+}
+
+export function cardMetrics(
+  style: CardStyle,
+  size: CardSize | null,
+  palette: CardPalette | null | undefined,
+  hasCoverImage: boolean
+): CardMetrics {
+  const u = size ? cardScale(size) : 1;
+  const landscape = size ? isLandscape(size) : false;
+  const color = textColorFor(style, palette);
+  const { layout, textAlign } = style;
+  const hasCover = hasCoverImage && layoutShowsCover(layout);
+  const sideCover = hasCover && (layout === 'cover-left' || layout === 'cover-right');
+  const quote = layout === 'quote';
+
+  return {
+    u,
+    landscape,
+    hasCover,
+    sideCover,
+    direction: landscape && sideCover ? (layout === 'cover-left' ? 'row' : 'row-reverse') : 'column',
+    background: backgroundCss(style.background, palette),
+    color,
+    border: borderColorFor(color),
+    padding: 24 * u,
+    gap: 24 * u,
+    coverSize: Math.round((size ? (landscape ? 160 : 140) : 80) * u),
+    coverRadius: 4 * u,
+    coverBorder: 2 * u,
+    coverBlur: 12 * u,
+    titleSize: 18 * u,
+    titleGap: 4 * u,
+    metaSize: 14 * u,
+    metaGap: 16 * u,
+    bodyTop: quote ? 0 : 8 * u,
+    lineSize: (quote ? style.fontSize * 1.25 : style.fontSize) * u,
+    lineGap: 4 * u,
+    secondarySize: style.fontSize * 0.75 * u,
+    quoteMarkSize: 72 * u,
+    attributionSize: 14 * u,
+    creditSize: 12 * u,
+    creditGap: 16 * u,
+    // Con texto a la izquierda el crédito va a la derecha
+    creditAlign: textAlign === 'left' ? 'right' : textAlign,
+  };
+}
+
+// "Artista · Álbum" según las opciones de visibilidad
+export function cardMetaLine(song: SearchResult, style: CardStyle): string {
+  return [style.showArtist && song.artist, style.showAlbum && song.album].filter(Boolean).join(' · ');
+}
+
+// Crédito de la tarjeta según el proveedor que devolvió la letra
+export function lyricsCredit(attribution: string | null | undefined, source: string | null, synced: boolean): string {
+  return `Lyrics via ${attribution ?? source}${synced ? ', Synced' : ''}`;
+}
@@ -0,0 +1,143 @@
+// src/lib/card/palette.ts
+
+// Paleta derivada de la portada: colores dominantes -> degradado + color de texto con contraste suficiente.
+
+export type Rgb = [number, number, number];
+
+export interface CardPalette {
+  // Valor CSS para `background`
+  background: string;
+  text: string;
+  // Bordes/separadores sobre el fondo
+  border: string;
+  // Colores base del degradado, de más a menos dominante
+  colors: Rgb[];
+  // Contraste WCAG mínimo del texto contra cualquiera de los colores del degradado
+  contrast: number;
+}
+
+// WCAG AA para texto normal
+export const MIN_CONTRAST = 4.5;
+const LIGHT_TEXT: Rgb = [255, 255, 255];
+const DARK_TEXT: Rgb = [17, 24, 39];
+
+export function toHex([r, g, b]: Rgb): string {
+  return `#${[r, g, b].map((c) => c.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function channel(c: number): number {
+  const s = c / 255;
+  return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+}
+
+export function luminance([r, g, b]: Rgb): number {
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+export function contrastRatio(a: Rgb, b: Rgb): number {
+  const [hi, lo] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+}
+
+function saturation([r, g, b]: Rgb): number {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  return max === 0 ? 0 : (max - min) / max;
+}
+
+function distance(a: Rgb, b: Rgb): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+function mix(a: Rgb, b: Rgb, t: number): Rgb {
+  return [0, 1, 2].map((i) => Math.round(a[i] + (b[i] - a[i]) * t)) as Rgb;
+}
+
+// Cuantiza píxeles RGBA en cubos de 4 bits por canal y devuelve los colores más frecuentes,
+// favoreciendo los saturados y descartando los casi transparentes.
+export function dominantColors(pixels: Uint8ClampedArray, count = 2): Rgb[] {
+  const buckets = new Map<number, { sum: Rgb; n: number }>();
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] < 128) continue;
+    const r = pixels[i];
+    const g = pixels[i + 1];
+    const b = pixels[i + 2];
+    const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+    const bucket = buckets.get(key) ?? { sum: [0, 0, 0] as Rgb, n: 0 };
+    bucket.sum[0] += r;
+    bucket.sum[1] += g;
+    bucket.sum[2] += b;
+    bucket.n++;
+    buckets.set(key, bucket);
+  }
+
+  const ranked = [...buckets.values()]
+    .map(({ sum, n }) => {
+      const color: Rgb = [Math.round(sum[0] / n), Math.round(sum[1] / n), Math.round(sum[2] / n)];
+      return { color, weight: n * (0.5 + saturation(color)) };
+    })
+    .sort((a, b) => b.weight - a.weight);
+
+  // Elegir colores distintos entre sí para que el degradado se note
+  const picked: Rgb[] = [];
+  for (const { color } of ranked) {
+    if (picked.every((p) => distance(p, color) > 60)) picked.push(color);
+    if (picked.length === count) break;
+  }
+  while (picked.length < count && picked.length > 0) {
+    picked.push(mix(picked[0], [0, 0, 0], 0.4));
+  }
+  return picked;
+}
+
+function minContrast(text: Rgb, colors: Rgb[]): number {
+  return Math.min(...colors.map((c) => contrastRatio(text, c)));
+}
+
+// Construye el tema de la tarjeta. Si ni texto claro ni oscuro llegan a MIN_CONTRAST,
+// oscurece el degradado progresivamente hasta que el texto blanco lo cumpla.
+export function buildPalette(source: Rgb[]): CardPalette {
+  let colors = source.length > 0 ? source : [[124, 58, 237], [79, 70, 229]] as Rgb[];
+  let text = minContrast(LIGHT_TEXT, colors) >= minContrast(DARK_TEXT, colors) ? LIGHT_TEXT : DARK_TEXT;
+
+  for (let step = 0; step < 10 && minContrast(text, colors) < MIN_CONTRAST; step++) {
+    text = LIGHT_TEXT;
+    colors = colors.map((c) => mix(c, [0, 0, 0], 0.15));
+  }
+
+  const [r, g, b] = text;
+  return {
+    background: `linear-gradient(135deg, ${colors.map(toHex).join(', ')})`,
+    text: toHex(text),
+    border: `rgba(${r}, ${g}, ${b}, 0.3)`,
+    colors,
+    contrast: Math.round(minContrast(text, colors) * 100) / 100,
+  };
+}
+
+// Lado de la miniatura que se muestrea (en navegador y en servidor)
+export const PALETTE_SAMPLE_SIZE = 64;
+
+// Solo navegador: descarga la portada (requiere CORS) y extrae su paleta.
+export function extractPalette(url: string): Promise<CardPalette> {
+  return new Promise((resolve, reject) => {
+    const img = new window.Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      const size = PALETTE_SAMPLE_SIZE;
+      const canvas = document.createElement('canvas');
+      canvas.width = size;
+      canvas.height = size;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error('Canvas is not available.'));
+      try {
+        ctx.drawImage(img, 0, 0, size, size);
+        resolve(buildPalette(dominantColors(ctx.getImageData(0, 0, size, size).data)));
+      } catch {
+        reject(new Error('Cover image could not be read (CORS).'));
+      }
+    };
+    img.onerror = () => reject(new Error('Cover image failed to load.'));
+    img.src = url;
+  });
+}
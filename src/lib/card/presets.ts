@@ -0,0 +1,43 @@
+// src/lib/card/presets.ts
+
+// Tamaños de exportación de la tarjeta. `null` = tarjeta natural del modal (ancho fijo, alto según contenido).
+
+export interface CardSize {
+  width: number;
+  height: number;
+}
+
+export interface ExportPreset {
+  id: string;
+  name: string;
+  size: CardSize | null;
+}
+
+export const exportPresets: ExportPreset[] = [
+  { id: 'card', name: 'Card (auto height)', size: null },
+  { id: 'story', name: 'Instagram story (9:16)', size: { width: 1080, height: 1920 } },
+  { id: 'square', name: 'Square post (1:1)', size: { width: 1080, height: 1080 } },
+  { id: 'twitter', name: 'Twitter card (16:9)', size: { width: 1200, height: 675 } },
+  { id: 'custom', name: 'Custom size', size: { width: 1600, height: 900 } },
+];
+
+export const MIN_CUSTOM_SIZE = 200;
+export const MAX_CUSTOM_SIZE = 4096;
+
+export type ExportFormat = 'png' | 'jpeg' | 'svg';
+
+export const exportFormats: { id: ExportFormat; name: string; mime: string }[] = [
+  { id: 'png', name: 'PNG', mime: 'image/png' },
+  { id: 'jpeg', name: 'JPEG', mime: 'image/jpeg' },
+  { id: 'svg', name: 'SVG', mime: 'image/svg+xml' },
+];
+
+// Tarjetas apaisadas ponen la portada a la izquierda; el resto, en columna
+export function isLandscape(size: CardSize): boolean {
+  return size.width > size.height * 1.2;
+}
+
+// Factor respecto a la tarjeta natural (~400px de ancho) para escalar tipografía y márgenes
+export function cardScale(size: CardSize): number {
+  return Math.min(size.width, size.height) / 400;
+}
@@ -0,0 +1,161 @@
+// src/lib/card/render.tsx
+
+// Render de la tarjeta en el servidor (satori vía next/og), sin navegador ni html-to-image.
+// Mismo layout que ShareCard: las medidas salen de cardMetrics. Satori solo entiende flexbox,
+// así que la portada flotante de la tarjeta natural se sustituye por una fila/columna.
+
+import axios from 'axios';
+import { ImageResponse } from 'next/og';
+import sharp from 'sharp';
+import type { SearchResult } from '@/lib/api/types';
+import { cardMetaLine, cardMetrics, COVER_OVERLAY } from '@/lib/card/layout';
+import {
+  buildPalette,
+  dominantColors,
+  PALETTE_SAMPLE_SIZE,
+  type CardPalette,
+} from '@/lib/card/palette';
+import type { CardSize } from '@/lib/card/presets';
+import type { CardStyle } from '@/lib/card/style';
+
+export interface CardRenderInput {
+  song: SearchResult;
+  lines: string[];
+  secondaryLines?: string[];
+  style: CardStyle;
+  credit: string;
+  size: CardSize;
+  coverSrc?: string;
+}
+
+// Equivalente en servidor de extractPalette: aquí no hay CORS que sortear
+export async function extractPaletteFromUrl(url: string): Promise<CardPalette> {
+  const res = await axios.get<ArrayBuffer>(url, { responseType: 'arraybuffer', timeout: 10_000 });
+  const { data } = await sharp(Buffer.from(res.data))
+    .resize(PALETTE_SAMPLE_SIZE, PALETTE_SAMPLE_SIZE, { fit: 'fill' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return buildPalette(dominantColors(new Uint8ClampedArray(data.buffer, data.byteOffset, data.length)));
+}
+
+function CardImage({ song, lines, secondaryLines = [], style, palette, credit, size, coverSrc }: CardRenderInput & { palette: CardPalette | null }) {
+  const m = cardMetrics(style, size, palette, !!coverSrc);
+  const { layout, textAlign } = style;
+  const quote = layout === 'quote';
+  const meta = cardMetaLine(song, style);
+  const alignSelf = m.landscape ? 'center' : textAlign === 'center' ? 'center' : textAlign === 'right' ? 'flex-end' : 'flex-start';
+
+  return (
+    <div
+      style={{
+        position: 'relative',
+        display: 'flex',
+        flexDirection: m.direction,
+        justifyContent: 'center',
+        alignItems: m.landscape && m.sideCover ? 'center' : 'stretch',
+        gap: m.gap,
+        width: size.width,
+        height: size.height,
+        padding: m.padding,
+        overflow: 'hidden',
+        background: m.background,
+        color: m.color,
+        lineHeight: 1.6,
+        textAlign,
+      }}
+    >
+      {m.hasCover && layout === 'cover-background' && (
+        // eslint-disable-next-line @next/next/no-img-element -- satori solo admite <img>
+        <img
+          src={coverSrc}
+          alt=""
+          width={size.width}
+          height={size.height}
+          style={{
+            position: 'absolute',
+            top: 0,
+            left: 0,
+            width: size.width,
+            height: size.height,
+            objectFit: 'cover',
+            filter: `blur(${m.coverBlur}px)`,
+            transform: 'scale(1.15)',
+          }}
+        />
+      )}
+      {m.hasCover && layout === 'cover-background' && (
+        <div style={{ position: 'absolute', top: 0, left: 0, width: size.width, height: size.height, background: COVER_OVERLAY }} />
+      )}
+      {m.sideCover && (
+        // eslint-disable-next-line @next/next/no-img-element -- satori solo admite <img>
+        <img
+          src={coverSrc}
+          alt=""
+          width={m.coverSize}
+          height={m.coverSize}
+          style={{
+            width: m.coverSize,
+            height: m.coverSize,
+            objectFit: 'cover',
+            borderRadius: m.coverRadius,
+            border: `${m.coverBorder}px solid ${m.border}`,
+            alignSelf,
+          }}
+        />
+      )}
+      {/* Satori falla con valores de estilo undefined: las propiedades opcionales van con spread */}
+      <div style={{ position: 'relative', display: 'flex', flexDirection: 'column', minWidth: 0, ...(m.landscape && m.sideCover ? { flex: 1 } : {}) }}>
+        {!quote && (
+          <div
+            style={{
+              fontSize: m.titleSize,
+              fontWeight: 700,
+              borderBottom: `1px solid ${m.border}`,
+              paddingBottom: m.titleGap,
+              marginBottom: m.titleGap,
+            }}
+          >
+            {song.title}
+          </div>
+        )}
+        {!quote && meta && <div style={{ fontSize: m.metaSize, opacity: 0.8, marginBottom: m.metaGap }}>{meta}</div>}
+        <div style={{ display: 'flex', flexDirection: 'column', paddingTop: m.bodyTop }}>
+          {quote && <div style={{ fontSize: m.quoteMarkSize, lineHeight: 1, opacity: 0.5 }}>&ldquo;</div>}
+          {lines.map((line, i) => (
+            <div key={i} style={{ display: 'flex', flexDirection: 'column', marginBottom: m.lineGap }}>
+              <div style={{ fontSize: m.lineSize, ...(quote ? { fontStyle: 'italic' } : {}) }}>{line || ' '}</div>
+              {style.showTranslation && secondaryLines[i] && (
+                <div style={{ fontSize: m.secondarySize, opacity: 0.75 }}>{secondaryLines[i]}</div>
+              )}
+            </div>
+          ))}
+          {quote && (
+            <div style={{ fontSize: m.attributionSize, opacity: 0.8, marginTop: m.creditGap }}>
+              {`— ${song.title}${meta ? `, ${meta}` : ''}`}
+            </div>
+          )}
+        </div>
+        {style.showCredit && credit && (
+          <div style={{ fontSize: m.creditSize, opacity: 0.6, marginTop: m.creditGap, textAlign: m.creditAlign }}>{credit}</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// PNG renderizado por satori/resvg
+export async function renderCardImage(input: CardRenderInput): Promise<Response> {
+  let palette: CardPalette | null = null;
+  if (input.style.background.type === 'auto' && input.coverSrc) {
+    // Sin paleta, backgroundCss cae al degradado por defecto como en el cliente
+    palette = await extractPaletteFromUrl(input.coverSrc).catch(() => null);
+  }
+
+  // Se renderiza entero antes de responder para que los fallos lleguen como error JSON y no a mitad del stream
+  const png = await new ImageResponse(<CardImage {...input} palette={palette} />, {
+    width: input.size.width,
+    height: input.size.height,
+  }).arrayBuffer();
+  return new Response(png, { headers: { 'Content-Type': 'image/png' } });
+}
@@ -0,0 +1,146 @@
+// src/lib/card/style.ts
+
+// Modelo de estilo de la tarjeta, compartido por el editor del modal y el render del servidor.
+
+import type { CardPalette } from '@/lib/card/palette';
+
+export const fontOptions = [
+  { name: 'Geist Sans', value: 'var(--font-geist-sans)' },
+  { name: 'Geist Mono', value: 'var(--font-geist-mono)' },
+  { name: 'Inter', value: 'Inter, sans-serif' },
+  { name: 'Roboto Mono', value: '"Roboto Mono", monospace' },
+  { name: 'Merriweather', value: 'Merriweather, serif' },
+];
+
+// Degradados fijos (equivalentes a los bg-gradient-to-br de Tailwind que usaba el modal)
+export const gradientPresets = [
+  { name: 'Default', value: 'linear-gradient(to bottom right, #9333ea, #4f46e5)' },
+  { name: 'Sunset', value: 'linear-gradient(to bottom right, #ef4444, #f97316)' },
+  { name: 'Ocean', value: 'linear-gradient(to bottom right, #60a5fa, #34d399)' },
+  { name: 'Forest', value: 'linear-gradient(to bottom right, #22c55e, #65a30d)' },
+  { name: 'Twilight', value: 'linear-gradient(to bottom right, #6366f1, #6b21a8)' },
+  { name: 'Mono', value: 'linear-gradient(to bottom right, #374151, #111827)' },
+];
+
+export type CardBackground =
+  | { type: 'preset'; name: string }
+  | { type: 'auto' }
+  | { type: 'gradient'; stops: string[]; angle: number }
+  | { type: 'solid'; color: string };
+
+export type CardLayout = 'cover-right' | 'cover-left' | 'cover-background' | 'no-cover' | 'quote';
+
+export const cardLayouts: { id: CardLayout; name: string }[] = [
+  { id: 'cover-right', name: 'Cover on the right' },
+  { id: 'cover-left', name: 'Cover on the left' },
+  { id: 'cover-background', name: 'Blurred cover background' },
+  { id: 'no-cover', name: 'No cover' },
+  { id: 'quote', name: 'Large quote mark' },
+];
+
+export function layoutShowsCover(layout: CardLayout): boolean {
+  return layout !== 'no-cover' && layout !== 'quote';
+}
+
+export type CardTextAlign = 'left' | 'center' | 'right';
+
+export interface CardStyle {
+  font: string;
+  background: CardBackground;
+  // null = automático (blanco, o el de la paleta de la portada)
+  textColor: string | null;
+  textAlign: CardTextAlign;
+  // Tamaño de las líneas de letra en la tarjeta natural (px)
+  fontSize: number;
+  layout: CardLayout;
+  showArtist: boolean;
+  showAlbum: boolean;
+  showCredit: boolean;
+  // Traducción o romanización bajo cada línea, si la hay
+  showTranslation: boolean;
+}
+
+export const MIN_FONT_SIZE = 12;
+export const MAX_FONT_SIZE = 32;
+
+export const defaultCardStyle: CardStyle = {
+  font: fontOptions[1].value,
+  background: { type: 'preset', name: gradientPresets[0].name },
+  textColor: null,
+  textAlign: 'left',
+  fontSize: 16,
+  layout: 'cover-right',
+  showArtist: true,
+  showAlbum: false,
+  showCredit: true,
+  showTranslation: true,
+};
+
+export function backgroundCss(background: CardBackground, palette?: CardPalette | null): string {
+  switch (background.type) {
+    case 'auto':
+      return palette?.background ?? gradientPresets[0].value;
+    case 'gradient':
+      return `linear-gradient(${background.angle}deg, ${background.stops.join(', ')})`;
+    case 'solid':
+      return background.color;
+    default:
+      return (gradientPresets.find((g) => g.name === background.name) ?? gradientPresets[0]).value;
+  }
+}
+
+export function textColorFor(style: CardStyle, palette?: CardPalette | null): string {
+  if (style.textColor) return style.textColor;
+  if (style.background.type === 'auto' && palette) return palette.text;
+  return '#ffffff';
+}
+
+// Color de bordes/separadores: el del texto al 30 %
+export function borderColorFor(textColor: string): string {
+  const hex = /^#([0-9a-f]{6})$/i.exec(textColor);
+  if (!hex) return 'rgba(255, 255, 255, 0.3)';
+  const n = parseInt(hex[1], 16);
+  return `rgba(${(n >> 16) & 255}, ${(n >> 8) & 255}, ${n & 255}, 0.3)`;
+}
+
+// Valida un estilo venido de fuera (localStorage, URL, API) completando lo que falte con los valores por defecto.
+export function sanitizeCardStyle(value: unknown): CardStyle {
+  const input = (typeof value === 'object' && value !== null ? value : {}) as Partial<CardStyle>;
+  const bg = input.background as CardBackground | undefined;
+  const isColor = (c: unknown): c is string => typeof c === 'string' && /^#[0-9a-f]{6}$/i.test(c);
+
+  let background = defaultCardStyle.background;
+  if (bg?.type === 'auto') background = bg;
+  else if (bg?.type === 'preset' && gradientPresets.some((g) => g.name === bg.name)) background = bg;
+  else if (bg?.type === 'solid' && isColor(bg.color)) background = bg;
+  else if (
+    bg?.type === 'gradient' &&
+    Array.isArray(bg.stops) &&
+    bg.stops.length >= 2 &&
+    bg.stops.every(isColor) &&
+    typeof bg.angle === 'number'
+  ) {
+    background = { type: 'gradient', stops: bg.stops.slice(0, 4), angle: bg.angle % 360 };
+  }
+
+  const fontSize =
+    typeof input.fontSize === 'number'
+      ? Math.min(Math.max(Math.round(input.fontSize), MIN_FONT_SIZE), MAX_FONT_SIZE)
+      : defaultCardStyle.fontSize;
+
+  return {
+    font: fontOptions.some((f) => f.value === input.font) ? input.font! : defaultCardStyle.font,
+    background,
+    textColor: isColor(input.textColor) ? input.textColor : null,
+    textAlign: ['left', 'center', 'right'].includes(input.textAlign as string)
+      ? (input.textAlign as CardTextAlign)
+      : defaultCardStyle.textAlign,
+    fontSize,
+    layout: cardLayouts.some((l) => l.id === input.layout) ? input.layout! : defaultCardStyle.layout,
+    showArtist: typeof input.showArtist === 'boolean' ? input.showArtist : defaultCardStyle.showArtist,
+    showAlbum: typeof input.showAlbum === 'boolean' ? input.showAlbum : defaultCardStyle.showAlbum,
+    showCredit: typeof input.showCredit === 'boolean' ? input.showCredit : defaultCardStyle.showCredit,
+    showTranslation:
+      typeof input.showTranslation === 'boolean' ? input.showTranslation : defaultCardStyle.showTranslation,
+  };
+}
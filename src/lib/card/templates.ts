@@ -0,0 +1,43 @@
+// src/lib/card/templates.ts
+
+// Plantillas de estilo con nombre, guardadas en localStorage (solo navegador).
+
+import { sanitizeCardStyle, type CardStyle } from '@/lib/card/style';
+
+export interface CardTemplate {
+  name: string;
+  style: CardStyle;
+}
+
+const STORAGE_KEY = 'lyricFinder.cardTemplates';
+
+export function loadTemplates(): CardTemplate[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(raw)) return [];
+    return raw
+      .filter((t) => typeof t?.name === 'string' && t.name.trim())
+      .map((t) => ({ name: t.name, style: sanitizeCardStyle(t.style) }));
+  } catch {
+    return [];
+  }
+}
+
+function persist(templates: CardTemplate[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+}
+
+// Guardar con un nombre existente sobrescribe esa plantilla
+export function saveTemplate(name: string, style: CardStyle): CardTemplate[] {
+  const templates = loadTemplates().filter((t) => t.name !== name);
+  templates.push({ name, style });
+  templates.sort((a, b) => a.name.localeCompare(b.name));
+  persist(templates);
+  return templates;
+}
+
+export function deleteTemplate(name: string): CardTemplate[] {
+  const templates = loadTemplates().filter((t) => t.name !== name);
+  persist(templates);
+  return templates;
+}
@@ -0,0 +1,103 @@
+// src/lib/deepLink.ts
+
+// Enlaces compartibles: /track/<spotifyId>?lines=3-5,9&style=<base64url>&preview=1
+// Compartido por el cliente (restaurar/actualizar la URL) y el servidor (metadatos OG).
+
+import { defaultCardStyle, sanitizeCardStyle, type CardStyle } from '@/lib/card/style';
+import { groupRuns, MAX_SELECTED_LINES_LIMIT } from '@/lib/selection';
+
+export const SPOTIFY_ID_RE = /^[0-9A-Za-z]{22}$/;
+const TRACK_PATH_RE = /^\/track\/([0-9A-Za-z]{22})\/?$/;
+
+export interface TrackLink {
+  trackId: string;
+  // Índices 0-based de las líneas seleccionadas
+  lines: number[];
+  style: CardStyle | null;
+  preview: boolean;
+}
+
+export function isSpotifyTrackId(id: string): boolean {
+  return SPOTIFY_ID_RE.test(id);
+}
+
+// [2,3,4,8] -> "3-5,9" (números de línea 1-based, legibles en la URL)
+export function formatLineRanges(indices: number[]): string {
+  return groupRuns(indices)
+    .map((run) => (run.length === 1 ? `${run[0] + 1}` : `${run[0] + 1}-${run[run.length - 1] + 1}`))
+    .join(',');
+}
+
+// "3-5,9" -> [2,3,4,8]; ignora lo inválido y corta en `max` líneas
+export function parseLineRanges(value: string | null | undefined, max = MAX_SELECTED_LINES_LIMIT): number[] {
+  const out = new Set<number>();
+  for (const part of (value ?? '').split(',')) {
+    const match = /^(\d+)(?:-(\d+))?$/.exec(part.trim());
+    if (!match) continue;
+    const from = parseInt(match[1], 10);
+    const to = match[2] ? parseInt(match[2], 10) : from;
+    for (let n = Math.max(from, 1); n <= to && out.size < max; n++) out.add(n - 1);
+  }
+  return [...out].sort((a, b) => a - b);
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+export function encodeCardStyle(style: CardStyle): string {
+  return toBase64Url(JSON.stringify(style));
+}
+
+// null si el parámetro no es un estilo válido
+export function decodeCardStyle(value: string | null | undefined): CardStyle | null {
+  if (!value) return null;
+  try {
+    return sanitizeCardStyle(JSON.parse(fromBase64Url(value)));
+  } catch {
+    return null;
+  }
+}
+
+// Ruta relativa del enlace; el estilo por defecto no se incluye para acortar la URL
+export function buildTrackLink(
+  trackId: string,
+  { lines = [], style = null, preview = false }: Partial<Omit<TrackLink, 'trackId'>> = {}
+): string {
+  const params = new URLSearchParams();
+  if (lines.length) params.set('lines', formatLineRanges(lines));
+  if (style && JSON.stringify(style) !== JSON.stringify(defaultCardStyle)) {
+    params.set('style', encodeCardStyle(style));
+  }
+  if (preview && lines.length) params.set('preview', '1');
+  const query = params.toString();
+  return `/track/${trackId}${query ? `?${query}` : ''}`;
+}
+
+// null si la ruta no es un enlace de canción
+export function parseTrackLink(pathname: string, search: string | URLSearchParams): TrackLink | null {
+  const match = TRACK_PATH_RE.exec(pathname);
+  if (!match) return null;
+  const params = typeof search === 'string' ? new URLSearchParams(search) : search;
+  return {
+    trackId: match[1],
+    lines: parseLineRanges(params.get('lines')),
+    style: decodeCardStyle(params.get('style')),
+    preview: params.get('preview') === '1',
+  };
+}
+
+// Enlace (open.spotify.com/…/playlist/<id>), URI (spotify:album:<id>) o id suelto de una playlist
+// o un álbum, para la búsqueda por lotes; un id suelto se toma como playlist. null si no lo es.
+export function parseSpotifyCollection(value: string): { kind: 'playlist' | 'album'; id: string } | null {
+  const input = value.trim();
+  if (SPOTIFY_ID_RE.test(input)) return { kind: 'playlist', id: input };
+  const match = /(?:open\.spotify\.com\/(?:[\w-]+\/)?|spotify:)(playlist|album)[/:]([0-9A-Za-z]{22})\b/.exec(input);
+  return match ? { kind: match[1] as 'playlist' | 'album', id: match[2] } : null;
+}
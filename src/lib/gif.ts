@@ -0,0 +1,162 @@
+// src/lib/gif.ts
+
+// Codificador GIF89a mínimo para la exportación animada: una paleta de 256 colores por fotograma
+// (los más frecuentes, agrupados a 5 bits por canal), LZW y bucle infinito. Sin tramado: las
+// tarjetas son sobre todo colores planos y degradados suaves.
+
+export interface GifFrame {
+  // RGBA, ancho × alto del GIF; la transparencia se ignora
+  data: Uint8ClampedArray;
+  // Centésimas de segundo
+  delay: number;
+}
+
+const MAX_COLORS = 256;
+const MIN_CODE_SIZE = 8;
+const MAX_CODE = 4096;
+
+// Color de cada píxel agrupado a 5 bits por canal (32768 grupos)
+function bucketOf(data: Uint8ClampedArray, i: number): number {
+  return ((data[i] >> 3) << 10) | ((data[i + 1] >> 3) << 5) | (data[i + 2] >> 3);
+}
+
+function quantize(data: Uint8ClampedArray): { palette: Uint8Array; indices: Uint8Array } {
+  const counts = new Uint32Array(32768);
+  const sums = new Float64Array(32768 * 3);
+  for (let i = 0; i < data.length; i += 4) {
+    const b = bucketOf(data, i);
+    counts[b]++;
+    sums[b * 3] += data[i];
+    sums[b * 3 + 1] += data[i + 1];
+    sums[b * 3 + 2] += data[i + 2];
+  }
+  const used: number[] = [];
+  for (let b = 0; b < counts.length; b++) if (counts[b]) used.push(b);
+  used.sort((a, b) => counts[b] - counts[a]);
+
+  // Color medio de cada uno de los grupos más frecuentes
+  const palette = new Uint8Array(MAX_COLORS * 3);
+  const colors = used.slice(0, MAX_COLORS);
+  colors.forEach((b, n) => {
+    for (let c = 0; c < 3; c++) palette[n * 3 + c] = Math.round(sums[b * 3 + c] / counts[b]);
+  });
+
+  // El resto de grupos van al color más cercano de la paleta
+  const lookup = new Int16Array(32768).fill(-1);
+  colors.forEach((b, n) => (lookup[b] = n));
+  const indices = new Uint8Array(data.length / 4);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    const b = bucketOf(data, i);
+    if (lookup[b] < 0) {
+      let best = 0;
+      let bestDistance = Infinity;
+      for (let n = 0; n < colors.length; n++) {
+        const dr = data[i] - palette[n * 3];
+        const dg = data[i + 1] - palette[n * 3 + 1];
+        const db = data[i + 2] - palette[n * 3 + 2];
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = n;
+        }
+      }
+      lookup[b] = best;
+    }
+    indices[p] = lookup[b];
+  }
+  return { palette, indices };
+}
+
+// Compresión LZW de códigos de longitud variable, como la espera el decodificador de GIF
+function lzw(indices: Uint8Array): number[] {
+  const clear = 1 << MIN_CODE_SIZE;
+  const end = clear + 1;
+  const out: number[] = [];
+  const dict = new Map<number, number>();
+  let codeSize = MIN_CODE_SIZE + 1;
+  let next = end + 1;
+  let buffer = 0;
+  let bits = 0;
+
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.push(buffer & 0xff);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+    if (code === clear) {
+      codeSize = MIN_CODE_SIZE + 1;
+    } else if (next >= 1 << codeSize && codeSize < 12) {
+      codeSize++;
+    }
+  };
+
+  emit(clear);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = dict.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (next < MAX_CODE) {
+      dict.set(key, next++);
+    } else {
+      // Diccionario lleno: se empieza otro
+      emit(clear);
+      dict.clear();
+      next = end + 1;
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(end);
+  if (bits > 0) out.push(buffer & 0xff);
+  return out;
+}
+
+export function encodeGif(width: number, height: number, frames: GifFrame[]): Uint8Array<ArrayBuffer> {
+  const out: number[] = [];
+  const word = (value: number) => out.push(value & 0xff, (value >> 8) & 0xff);
+  const ascii = (text: string) => out.push(...Array.from(text, (c) => c.charCodeAt(0)));
+
+  ascii('GIF89a');
+  word(width);
+  word(height);
+  // Sin paleta global: cada fotograma trae la suya
+  out.push(0, 0, 0);
+  // NETSCAPE2.0: repetir sin fin
+  out.push(0x21, 0xff, 11);
+  ascii('NETSCAPE2.0');
+  out.push(3, 1, 0, 0, 0);
+
+  for (const frame of frames) {
+    const { palette, indices } = quantize(frame.data);
+    // Control gráfico: retardo, sin transparencia
+    out.push(0x21, 0xf9, 4, 0);
+    word(frame.delay);
+    out.push(0, 0);
+    // Descriptor de imagen con paleta local de 256 colores
+    out.push(0x2c);
+    word(0);
+    word(0);
+    word(width);
+    word(height);
+    out.push(0x80 | 7);
+    out.push(...palette);
+    out.push(MIN_CODE_SIZE);
+    const data = lzw(indices);
+    for (let i = 0; i < data.length; i += 255) {
+      const block = data.slice(i, i + 255);
+      out.push(block.length, ...block);
+    }
+    out.push(0);
+  }
+  out.push(0x3b);
+  return new Uint8Array(out);
+}
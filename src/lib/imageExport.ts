@@ -0,0 +1,62 @@
+// src/lib/imageExport.ts
+
+import { toJpeg, toPng, toSvg } from 'html-to-image';
+import type { ExportFormat } from '@/lib/card/presets';
+
+export interface RenderOptions {
+  format: ExportFormat;
+  pixelRatio: number;
+  width?: number;
+  height?: number;
+}
+
+// Renderiza el nodo de la tarjeta como data URL en el formato pedido
+export function renderNode(node: HTMLElement, { format, pixelRatio, width, height }: RenderOptions): Promise<string> {
+  const options = {
+    pixelRatio,
+    width,
+    height,
+    // JPEG no tiene transparencia: las esquinas redondeadas quedarían negras por defecto
+    backgroundColor: format === 'jpeg' ? '#111827' : 'transparent',
+  };
+  switch (format) {
+    case 'jpeg':
+      return toJpeg(node, { ...options, quality: 0.95 });
+    case 'svg':
+      return toSvg(node, options);
+    default:
+      return toPng(node, options);
+  }
+}
+
+export async function dataUrlToBlob(url: string): Promise<Blob> {
+  const res = await fetch(url);
+  return res.blob();
+}
+
+export function downloadDataUrl(url: string, filename: string) {
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+}
+
+// El portapapeles solo acepta PNG de forma fiable en todos los navegadores
+export async function copyPngToClipboard(blob: Blob): Promise<void> {
+  if (!navigator.clipboard?.write || typeof ClipboardItem === 'undefined') {
+    throw new Error('Clipboard images are not supported in this browser.');
+  }
+  await navigator.clipboard.write([new ClipboardItem({ 'image/png': blob })]);
+}
+
+export function canShareFiles(): boolean {
+  return typeof navigator !== 'undefined' && typeof navigator.canShare === 'function';
+}
+
+export async function shareImage(blob: Blob, filename: string, title: string): Promise<void> {
+  const file = new File([blob], filename, { type: blob.type });
+  if (!navigator.canShare?.({ files: [file] })) {
+    throw new Error('Sharing images is not supported on this device.');
+  }
+  await navigator.share({ files: [file], title });
+}
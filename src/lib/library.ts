@@ -0,0 +1,237 @@
+// src/lib/library.ts
+
+// Biblioteca local (IndexedDB, solo navegador): historial, favoritos y citas guardadas.
+
+import type { SearchResult } from '@/lib/api/types';
+import { sanitizeCardStyle, type CardStyle } from '@/lib/card/style';
+
+const DB_NAME = 'lyricFinder';
+const DB_VERSION = 1;
+const HISTORY_LIMIT = 50;
+export const LIBRARY_EXPORT_VERSION = 1;
+
+export type LibraryStore = 'history' | 'favorites' | 'quotes';
+
+export interface HistoryEntry {
+  song: SearchResult;
+  viewedAt: number;
+}
+
+export interface FavoriteEntry {
+  song: SearchResult;
+  addedAt: number;
+}
+
+// Todo lo necesario para reproducir la tarjeta semanas después
+export interface SavedQuote {
+  id: string;
+  song: SearchResult;
+  lineIndices: number[];
+  // Texto final de la tarjeta (fragmentos y ediciones incluidos)
+  lines: string[];
+  // Traducción bajo cada línea, si la tarjeta la llevaba
+  secondaryLines?: string[];
+  style: CardStyle;
+  credit: string;
+  createdAt: number;
+}
+
+export interface LibraryExport {
+  version: number;
+  exportedAt: string;
+  history: HistoryEntry[];
+  favorites: FavoriteEntry[];
+  quotes: SavedQuote[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('Local library is not available in this browser.'));
+  }
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      // Historial y favoritos indexados por id de canción; las citas por su propio id
+      db.createObjectStore('history', { keyPath: 'song.id' });
+      db.createObjectStore('favorites', { keyPath: 'song.id' });
+      db.createObjectStore('quotes', { keyPath: 'id' });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error ?? new Error('Could not open the local library.'));
+    };
+  });
+  return dbPromise;
+}
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Ejecuta `fn` dentro de una transacción y espera a que se confirme
+async function withStores<T>(
+  stores: LibraryStore[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Library transaction aborted.'));
+  });
+  const result = await fn(tx);
+  await done;
+  return result;
+}
+
+function getAll<T>(store: LibraryStore): Promise<T[]> {
+  return withStores([store], 'readonly', (tx) => promisify<T[]>(tx.objectStore(store).getAll()));
+}
+
+// ---- Historial ----
+
+export async function getHistory(): Promise<HistoryEntry[]> {
+  const entries = await getAll<HistoryEntry>('history');
+  return entries.sort((a, b) => b.viewedAt - a.viewedAt);
+}
+
+// Registra una canción vista; se conservan solo las HISTORY_LIMIT más recientes
+export async function addToHistory(song: SearchResult): Promise<HistoryEntry[]> {
+  const entries = [{ song, viewedAt: Date.now() }, ...(await getHistory()).filter((e) => e.song.id !== song.id)];
+  await withStores(['history'], 'readwrite', (tx) => {
+    const store = tx.objectStore('history');
+    store.put(entries[0]);
+    for (const stale of entries.slice(HISTORY_LIMIT)) store.delete(stale.song.id);
+  });
+  return entries.slice(0, HISTORY_LIMIT);
+}
+
+export async function clearHistory(): Promise<void> {
+  await withStores(['history'], 'readwrite', (tx) => {
+    tx.objectStore('history').clear();
+  });
+}
+
+// ---- Favoritos ----
+
+export async function getFavorites(): Promise<FavoriteEntry[]> {
+  const entries = await getAll<FavoriteEntry>('favorites');
+  return entries.sort((a, b) => b.addedAt - a.addedAt);
+}
+
+// Añade o quita la canción de favoritos
+export async function toggleFavorite(song: SearchResult): Promise<FavoriteEntry[]> {
+  const favorites = await getFavorites();
+  const exists = favorites.some((f) => f.song.id === song.id);
+  await withStores(['favorites'], 'readwrite', (tx) => {
+    const store = tx.objectStore('favorites');
+    if (exists) store.delete(song.id);
+    else store.put({ song, addedAt: Date.now() });
+  });
+  return getFavorites();
+}
+
+// ---- Citas guardadas ----
+
+export async function getQuotes(): Promise<SavedQuote[]> {
+  const quotes = await getAll<SavedQuote>('quotes');
+  return quotes.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function saveQuote(quote: Omit<SavedQuote, 'id' | 'createdAt'>): Promise<SavedQuote[]> {
+  const saved: SavedQuote = { ...quote, id: crypto.randomUUID(), createdAt: Date.now() };
+  await withStores(['quotes'], 'readwrite', (tx) => {
+    tx.objectStore('quotes').put(saved);
+  });
+  return getQuotes();
+}
+
+export async function deleteQuote(id: string): Promise<SavedQuote[]> {
+  await withStores(['quotes'], 'readwrite', (tx) => {
+    tx.objectStore('quotes').delete(id);
+  });
+  return getQuotes();
+}
+
+// ---- Exportar / importar JSON ----
+
+export async function exportLibrary(): Promise<LibraryExport> {
+  const [history, favorites, quotes] = await Promise.all([getHistory(), getFavorites(), getQuotes()]);
+  return { version: LIBRARY_EXPORT_VERSION, exportedAt: new Date().toISOString(), history, favorites, quotes };
+}
+
+function isSong(value: unknown): value is SearchResult {
+  const s = value as SearchResult | null;
+  return (
+    !!s &&
+    typeof s.id === 'string' &&
+    typeof s.title === 'string' &&
+    typeof s.artist === 'string' &&
+    typeof s.album === 'string' &&
+    typeof s.duration === 'number'
+  );
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+// Valida un JSON exportado; las entradas inválidas se descartan en lugar de abortar
+export function parseLibraryExport(data: unknown): LibraryExport {
+  const raw = data as Partial<LibraryExport> | null;
+  if (!raw || typeof raw !== 'object' || raw.version !== LIBRARY_EXPORT_VERSION) {
+    throw new Error('Not a Lyric Finder library file.');
+  }
+  const list = (value: unknown): Record<string, unknown>[] =>
+    Array.isArray(value) ? value.filter((v) => v && typeof v === 'object') : [];
+  const now = Date.now();
+  return {
+    version: LIBRARY_EXPORT_VERSION,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : new Date(now).toISOString(),
+    history: list(raw.history)
+      .filter((e) => isSong(e.song))
+      .map((e) => ({ song: e.song as SearchResult, viewedAt: Number(e.viewedAt) || now })),
+    favorites: list(raw.favorites)
+      .filter((e) => isSong(e.song))
+      .map((e) => ({ song: e.song as SearchResult, addedAt: Number(e.addedAt) || now })),
+    quotes: list(raw.quotes)
+      .filter((q) => typeof q.id === 'string' && isSong(q.song) && isStringArray(q.lines))
+      .map((q) => ({
+        id: q.id as string,
+        song: q.song as SearchResult,
+        lineIndices: Array.isArray(q.lineIndices) ? q.lineIndices.filter(Number.isInteger) : [],
+        lines: q.lines as string[],
+        ...(isStringArray(q.secondaryLines) && { secondaryLines: q.secondaryLines }),
+        style: sanitizeCardStyle(q.style),
+        credit: typeof q.credit === 'string' ? q.credit : '',
+        createdAt: Number(q.createdAt) || now,
+      })),
+  };
+}
+
+// Fusiona con la biblioteca actual: las entradas con el mismo id se sobrescriben
+export async function importLibrary(data: unknown): Promise<LibraryExport> {
+  const parsed = parseLibraryExport(data);
+  await withStores(['history', 'favorites', 'quotes'], 'readwrite', (tx) => {
+    for (const e of parsed.history) tx.objectStore('history').put(e);
+    for (const f of parsed.favorites) tx.objectStore('favorites').put(f);
+    for (const q of parsed.quotes) tx.objectStore('quotes').put(q);
+  });
+  // Recorta el historial si la importación supera el límite
+  const history = await getHistory();
+  if (history.length > HISTORY_LIMIT) {
+    await withStores(['history'], 'readwrite', (tx) => {
+      for (const stale of history.slice(HISTORY_LIMIT)) tx.objectStore('history').delete(stale.song.id);
+    });
+  }
+  return exportLibrary();
+}
@@ -0,0 +1,110 @@
+// src/lib/lrc.ts
+
+// A single timed lyric line. `time` is in milliseconds, already offset-corrected.
+export interface SyncedLine {
+  time: number;
+  text: string;
+}
+
+// Parsed LRC document: ID tags (ti, ar, al, length, by...), the raw offset and timed lines.
+export interface LrcTimeline {
+  metadata: Record<string, string>;
+  offset: number;
+  lines: SyncedLine[];
+}
+
+const TIMESTAMP_RE = /\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+const TAG_RE = /^\[([a-zA-Z#]+):(.*)\]$/;
+
+function toMillis(min: string, sec: string, frac?: string): number {
+  let ms = 0;
+  if (frac) {
+    // "5" -> 500ms, "50" -> 500ms, "500" -> 500ms
+    ms = Math.round(parseInt(frac, 10) * Math.pow(10, 3 - frac.length));
+  }
+  return parseInt(min, 10) * 60_000 + parseInt(sec, 10) * 1000 + ms;
+}
+
+// Parsea un LRC completo. Soporta varias marcas de tiempo por línea
+// ("[00:12.00][01:30.50]estribillo"), la etiqueta [offset:±ms] y etiquetas ID.
+export function parseLrc(source: string): LrcTimeline {
+  const metadata: Record<string, string> = {};
+  const lines: SyncedLine[] = [];
+  let offset = 0;
+
+  for (const raw of source.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    const stamps: number[] = [];
+    TIMESTAMP_RE.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    let consumed = 0;
+    while ((match = TIMESTAMP_RE.exec(line)) && match.index === consumed) {
+      stamps.push(toMillis(match[1], match[2], match[3]));
+      consumed = TIMESTAMP_RE.lastIndex;
+    }
+
+    if (stamps.length > 0) {
+      const text = line.slice(consumed).trim();
+      for (const time of stamps) lines.push({ time, text });
+      continue;
+    }
+
+    const tag = TAG_RE.exec(line);
+    if (tag) {
+      const key = tag[1].toLowerCase();
+      const value = tag[2].trim();
+      if (key === 'offset') {
+        const parsed = parseInt(value, 10);
+        if (!Number.isNaN(parsed)) offset = parsed;
+      } else {
+        metadata[key] = value;
+      }
+    }
+  }
+
+  // A positive offset means lyrics appear earlier.
+  const shifted = lines
+    .map((l) => ({ time: Math.max(0, l.time - offset), text: l.text }))
+    .sort((a, b) => a.time - b.time);
+
+  return { metadata, offset, lines: shifted };
+}
+
+// Texto plano derivado de una línea de tiempo (para cuando LRCLIB solo trae syncedLyrics).
+export function timelineToPlain(timeline: LrcTimeline): string {
+  return timeline.lines.map((l) => l.text).join('\n');
+}
+
+export function formatTimestamp(ms: number): string {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${m}:${String(s).padStart(2, '0')}`;
+}
+
+// "3:25" o "205" -> milisegundos; undefined si está vacío o no es válido
+export function parseDuration(value: string): number | undefined {
+  const match = /^(?:(\d+):)?(\d+)$/.exec(value.trim());
+  if (!match) return undefined;
+  const seconds = parseInt(match[1] ?? '0', 10) * 60 + parseInt(match[2], 10);
+  return seconds > 0 ? seconds * 1000 : undefined;
+}
+
+// Índice de la última línea cuyo tiempo ya pasó (-1 si aún no empezó). Búsqueda binaria.
+export function findActiveLineIndex(lines: SyncedLine[], timeMs: number): number {
+  let lo = 0;
+  let hi = lines.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (lines[mid].time <= timeMs) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
@@ -0,0 +1,211 @@
+// src/lib/lrclib.ts
+
+import axios from 'axios';
+import type { LyricsAvailability, SearchResult } from '@/lib/api/types';
+import { MIN_CONFIDENCE, scoreMatch, type TrackMeta } from '@/lib/match';
+import type { LyricsCandidate, LyricsMatch, MatchStrategy } from '@/lib/providers/types';
+import { APP_USER_AGENT, callUpstream } from '@/lib/upstream';
+
+// Configurable para probar contra un LRCLIB falso local (npm run fake-lrclib)
+const LRCLIB_BASE = (process.env.LRCLIB_BASE_URL ?? 'https://lrclib.net/api').replace(/\/+$/, '');
+// Cuántos candidatos alternativos devolvemos al cliente
+const MAX_CANDIDATES = 5;
+// Publicar no se reintenta (no es idempotente) y LRCLIB valida la letra antes de responder
+const PUBLISH_TIMEOUT_MS = 30_000;
+
+// Registro tal como lo devuelven /api/get y /api/search
+export interface LrclibRecord {
+  id: number;
+  trackName: string;
+  artistName: string;
+  albumName: string;
+  duration: number;
+  instrumental: boolean;
+  plainLyrics: string | null;
+  syncedLyrics: string | null;
+}
+
+// Reto de prueba de trabajo de /api/request-challenge (hex)
+export interface LrclibChallenge {
+  prefix: string;
+  target: string;
+}
+
+// Cuerpo de /api/publish; `duration` en segundos
+export interface LrclibPublishPayload {
+  trackName: string;
+  artistName: string;
+  albumName: string;
+  duration: number;
+  plainLyrics: string;
+  syncedLyrics: string;
+}
+
+export interface ResolvedLyrics {
+  record: LrclibRecord | null;
+  match: LyricsMatch | null;
+  // Alternativas ordenadas por confianza, sin incluir la elegida
+  candidates: LyricsCandidate[];
+}
+
+// GET a LRCLIB con reintentos; un 404 se traduce en null, el resto de errores se propaga.
+async function lrclibGet<T>(path: string, params: Record<string, string | number>): Promise<T | null> {
+  try {
+    const { data } = await callUpstream(
+      'lrclib',
+      (signal) => axios.get<T>(`${LRCLIB_BASE}${path}`, { params, signal, headers: { 'User-Agent': APP_USER_AGENT } }),
+      { idempotent: true }
+    );
+    return data;
+  } catch (err: unknown) {
+    if (axios.isAxiosError(err) && err.response?.status === 404) return null;
+    throw err;
+  }
+}
+
+export function getLyricsExact(query: TrackMeta, withAlbum: boolean): Promise<LrclibRecord | null> {
+  const params: Record<string, string | number> = {
+    track_name: query.trackName,
+    artist_name: query.artistName,
+  };
+  if (withAlbum && query.albumName) params.album_name = query.albumName;
+  if (query.duration !== undefined) params.duration = query.duration;
+  return lrclibGet<LrclibRecord>('/get', params);
+}
+
+export function getLyricsById(id: number): Promise<LrclibRecord | null> {
+  return lrclibGet<LrclibRecord>(`/get/${id}`, {});
+}
+
+export async function searchLyrics(query: TrackMeta): Promise<LrclibRecord[]> {
+  const data = await lrclibGet<LrclibRecord[]>('/search', {
+    track_name: query.trackName,
+    artist_name: query.artistName,
+  });
+  return data ?? [];
+}
+
+// Búsqueda libre (/search?q=), usada como buscador de canciones cuando Spotify no está disponible
+export async function searchTracksByText(q: string): Promise<LrclibRecord[]> {
+  const data = await lrclibGet<LrclibRecord[]>('/search', { q });
+  return data ?? [];
+}
+
+// Pedir otro reto no tiene efectos secundarios: se reintenta como un GET
+export async function requestPublishChallenge(): Promise<LrclibChallenge> {
+  const { data } = await callUpstream(
+    'lrclib',
+    (signal) =>
+      axios.post<LrclibChallenge>(`${LRCLIB_BASE}/request-challenge`, null, {
+        signal,
+        headers: { 'User-Agent': APP_USER_AGENT },
+      }),
+    { idempotent: true }
+  );
+  return data;
+}
+
+// `token` = "prefix:nonce" del reto resuelto
+export async function publishLyrics(payload: LrclibPublishPayload, token: string): Promise<void> {
+  await callUpstream(
+    'lrclib',
+    (signal) =>
+      axios.post(`${LRCLIB_BASE}/publish`, payload, {
+        signal,
+        headers: { 'User-Agent': APP_USER_AGENT, 'X-Publish-Token': token },
+      }),
+    { idempotent: false, timeoutMs: PUBLISH_TIMEOUT_MS }
+  );
+}
+
+function recordAvailability(r: LrclibRecord): LyricsAvailability {
+  if (r.instrumental) return 'instrumental';
+  if (r.syncedLyrics) return 'synced';
+  return r.plainLyrics ? 'plain' : 'none';
+}
+
+// Resultado de búsqueda sin Spotify: sin portada ni preview
+export function recordToSearchResult(r: LrclibRecord): SearchResult {
+  return {
+    id: `lrclib-${r.id}`,
+    title: r.trackName,
+    artist: r.artistName,
+    album: r.albumName,
+    duration: Math.round(r.duration * 1000),
+    lyrics: recordAvailability(r),
+  };
+}
+
+export function toCandidate(query: TrackMeta, record: LrclibRecord): LyricsCandidate {
+  return {
+    source: 'lrclib',
+    id: record.id,
+    trackName: record.trackName,
+    artistName: record.artistName,
+    albumName: record.albumName,
+    duration: record.duration,
+    hasSynced: !!record.syncedLyrics,
+    confidence: scoreMatch(query, record),
+  };
+}
+
+function rankCandidates(query: TrackMeta, records: LrclibRecord[]): LyricsCandidate[] {
+  return records
+    .map((r) => toCandidate(query, r))
+    .sort((a, b) => b.confidence - a.confidence || Number(b.hasSynced) - Number(a.hasSynced));
+}
+
+// Comprobación barata para marcar resultados de búsqueda: un solo /search, sin /get.
+// null si ningún registro encaja con confianza.
+export async function probeAvailability(query: TrackMeta): Promise<LyricsAvailability | null> {
+  const results = await searchLyrics(query);
+  const best = rankCandidates(query, results)[0];
+  const record = best && best.confidence >= MIN_CONFIDENCE ? results.find((r) => r.id === best.id) : undefined;
+  return record ? recordAvailability(record) : null;
+}
+
+// Cadena de búsqueda: /get exacto -> /get sin álbum -> /search puntuado.
+// /search solo se consulta si /get falla o encaja con poca confianza; con un acierto
+// exacto fiable no hay alternativas que ofrecer (candidates vacío).
+export async function resolveLyrics(query: TrackMeta): Promise<ResolvedLyrics> {
+  let record: LrclibRecord | null = null;
+  let strategy: MatchStrategy = 'exact';
+  // /get exige duración; sin ella (entrada manual) vamos directos a /search
+  if (query.duration !== undefined) {
+    record = await getLyricsExact(query, true);
+    if (!record) {
+      record = await getLyricsExact(query, false);
+      strategy = 'no-album';
+    }
+  }
+
+  if (record) {
+    const exact = toCandidate(query, record);
+    if (exact.confidence >= MIN_CONFIDENCE) {
+      return { record, match: { ...exact, strategy }, candidates: [] };
+    }
+  }
+
+  const results = await searchLyrics(query);
+  const ranked = rankCandidates(query, results);
+
+  if (!record) {
+    const best = ranked[0];
+    if (best && best.confidence >= MIN_CONFIDENCE) {
+      // /search ya trae las letras completas; no hace falta otra petición
+      record = results.find((r) => r.id === best.id) ?? null;
+      strategy = 'search';
+    }
+  }
+
+  if (!record) {
+    return { record: null, match: null, candidates: ranked.slice(0, MAX_CANDIDATES) };
+  }
+
+  const chosenId = record.id;
+  return {
+    record,
+    match: { ...toCandidate(query, record), strategy },
+    candidates: ranked.filter((c) => c.id !== chosenId).slice(0, MAX_CANDIDATES),
+  };
+}
@@ -0,0 +1,119 @@
+// src/lib/lyricSearch.ts
+
+// "¿Cómo se llama la canción que dice…?": búsqueda de un fragmento de letra en LRCLIB,
+// con cada resultado emparejado con su pista de Spotify para tener portada, duración y preview.
+
+import type SpotifyWebApi from 'spotify-web-api-node';
+import type { SearchRequest, SearchResponse, SearchResult } from '@/lib/api/types';
+import { parseLrc, timelineToPlain } from '@/lib/lrc';
+import { recordToSearchResult, searchTracksByText, type LrclibRecord } from '@/lib/lrclib';
+import { MIN_CONFIDENCE, normalizeText, normalizeTitle, scoreMatch } from '@/lib/match';
+import { toSearchResult } from '@/lib/spotify';
+
+// Fracción de las palabras del fragmento que debe contener una línea (o dos seguidas)
+const MIN_SNIPPET_COVERAGE = 0.6;
+// Pistas de Spotify que se comparan con cada registro
+const SPOTIFY_CANDIDATES = 5;
+
+interface SnippetHit {
+  record: LrclibRecord;
+  snippet: string;
+  // 1 = el fragmento aparece tal cual
+  score: number;
+}
+
+function recordLines(record: LrclibRecord): string[] {
+  const text = record.plainLyrics || (record.syncedLyrics ? timelineToPlain(parseLrc(record.syncedLyrics)) : '');
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+// Línea que mejor contiene el fragmento; se prueban también parejas de líneas seguidas
+// porque lo que se recuerda suele cruzar un salto de línea
+function bestSnippet(lines: string[], query: string): Omit<SnippetHit, 'record'> | null {
+  const needle = normalizeText(query);
+  const words = needle.split(' ');
+  let best: Omit<SnippetHit, 'record'> | null = null;
+  for (let i = 0; i < lines.length; i++) {
+    for (const span of [1, 2]) {
+      const window = lines.slice(i, i + span);
+      if (window.length < span) continue;
+      const text = normalizeText(window.join(' '));
+      const present = new Set(text.split(' '));
+      const score = text.includes(needle) ? 1 : words.filter((w) => present.has(w)).length / words.length;
+      if (!best || score > best.score) best = { snippet: window.join(' / '), score };
+      if (score === 1) return best;
+    }
+  }
+  return best;
+}
+
+// Registros cuya letra contiene el fragmento, los más fieles primero y sin duplicados
+// (LRCLIB suele tener varias subidas de la misma canción)
+function rankHits(records: LrclibRecord[], { query, artist, album }: SearchRequest): SnippetHit[] {
+  const artistFilter = artist && normalizeText(artist);
+  const albumFilter = album && normalizeText(album);
+  const hits = records
+    .filter((r) => !artistFilter || normalizeText(r.artistName).includes(artistFilter))
+    .filter((r) => !albumFilter || normalizeText(r.albumName).includes(albumFilter))
+    .map((record) => ({ record, ...bestSnippet(recordLines(record), query) }))
+    .filter((h): h is SnippetHit => h.score !== undefined && h.score >= MIN_SNIPPET_COVERAGE)
+    .sort((a, b) => b.score - a.score || Number(!!b.record.syncedLyrics) - Number(!!a.record.syncedLyrics));
+
+  const seen = new Set<string>();
+  return hits.filter(({ record }) => {
+    const key = `${normalizeTitle(record.trackName)}|${normalizeText(record.artistName)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Pista de Spotify que corresponde al registro; null si ninguna se parece lo suficiente
+async function findSpotifyTrack(
+  spotifyApi: SpotifyWebApi,
+  record: LrclibRecord,
+  market?: string
+): Promise<SearchResult | null> {
+  const quote = (value: string) => `"${value.replace(/"/g, '')}"`;
+  const res = await spotifyApi.searchTracks(`track:${quote(record.trackName)} artist:${quote(record.artistName)}`, {
+    limit: SPOTIFY_CANDIDATES,
+    ...(market && { market }),
+  });
+  const scored = (res.body.tracks?.items ?? []).map((item) => ({
+    item,
+    confidence: scoreMatch(record, {
+      trackName: item.name,
+      artistName: item.artists.map((a) => a.name).join(', '),
+      duration: Math.round(item.duration_ms / 1000),
+    }),
+  }));
+  const best = scored.sort((a, b) => b.confidence - a.confidence)[0];
+  return best && best.confidence >= MIN_CONFIDENCE ? toSearchResult(best.item) : null;
+}
+
+// LRCLIB devuelve una sola página (máx. 20): se pagina sobre ella y solo se emparejan
+// con Spotify los resultados de la página pedida. Si Spotify falla o no encuentra la pista,
+// queda el resultado de LRCLIB, sin portada.
+export async function searchByLyrics(search: SearchRequest, spotifyApi: SpotifyWebApi | null): Promise<SearchResponse> {
+  const { offset, limit } = search;
+  const hits = rankHits(await searchTracksByText(search.query), search);
+  const results = await Promise.all(
+    hits.slice(offset, offset + limit).map(async ({ record, snippet }) => {
+      const lrclib = recordToSearchResult(record);
+      let spotify: SearchResult | null = null;
+      if (spotifyApi) {
+        try {
+          spotify = await findSpotifyTrack(spotifyApi, record, search.market);
+        } catch (err: unknown) {
+          console.warn(`Spotify lookup for "${record.trackName}" failed:`, err);
+        }
+      }
+      // La disponibilidad ya se conoce por el registro de LRCLIB
+      return { ...(spotify ?? lrclib), lyrics: lrclib.lyrics, snippet };
+    })
+  );
+  return { results, source: 'lrclib', total: hits.length, offset, limit };
+}
@@ -0,0 +1,203 @@
+// src/lib/lyricVideo.ts
+
+// Clip animado de la tarjeta a partir de la letra sincronizada: cada línea se revela o se resalta
+// en su marca de tiempo. La tarjeta se renderiza una vez por estado (fotogramas clave) y los
+// fotogramas se componen en un canvas: WebM con MediaRecorder, en tiempo real y con el audio de
+// la preview si se pide, o GIF con un fotograma por línea.
+
+import { encodeGif, type GifFrame } from '@/lib/gif';
+
+export type LineEffect = 'reveal' | 'highlight';
+export type VideoFormat = 'webm' | 'gif';
+
+// Margen antes de la primera línea y duración de la última si la canción no sigue
+const LEAD_IN_MS = 600;
+const LAST_LINE_MS = 3000;
+export const MAX_VIDEO_MS = 30_000;
+const FPS = 30;
+const VIDEO_BITS_PER_SECOND = 8_000_000;
+// Fundido entre estados en el WebM
+const FADE_MS = 250;
+// Lado mayor del GIF: a tamaño completo pesaría decenas de MB
+const GIF_MAX_SIZE = 540;
+// Fondo bajo las esquinas redondeadas: ni el vídeo ni el GIF tienen transparencia
+const BACKGROUND = '#111827';
+const HIDDEN_TAB_MESSAGE = 'Keep this tab visible while the video records, then try again.';
+
+export interface VideoTimeline {
+  // Milisegundos de la canción donde empieza el clip, y su duración
+  start: number;
+  duration: number;
+  // Cuándo se activa cada línea de la tarjeta, en ms desde el inicio del clip
+  cues: number[];
+}
+
+export type VideoTimelineResult = { ok: true; timeline: VideoTimeline } | { ok: false; reason: string };
+
+// Trozo de la preview que suena con el clip; `offset` es el ms del audio donde empieza
+// (momento de la canción menos el inicio del clip en ella y el desfase de Playback mode)
+export interface AudioSegment {
+  url: string;
+  offset: number;
+}
+
+// `times`: marca de cada línea de la tarjeta; `after`: la de la línea que sigue en la canción
+export function buildVideoTimeline(times: number[], after?: number): VideoTimelineResult {
+  if (!times.length) return { ok: false, reason: 'Select some lines first.' };
+  if (times.some((t, i) => i > 0 && t < times[i - 1])) {
+    return { ok: false, reason: 'The selected lines are not in time order.' };
+  }
+  const start = Math.max(0, times[0] - LEAD_IN_MS);
+  const last = times[times.length - 1];
+  const end = after !== undefined && after > last ? Math.min(after, last + 2 * LAST_LINE_MS) : last + LAST_LINE_MS;
+  if (end - start > MAX_VIDEO_MS) {
+    return { ok: false, reason: `The selected lines span more than ${MAX_VIDEO_MS / 1000} s.` };
+  }
+  return { ok: true, timeline: { start, duration: end - start, cues: times.map((t) => t - start) } };
+}
+
+// Línea activa en el instante `t` del clip (-1 antes de la primera)
+export function activeCue(cues: number[], t: number): number {
+  let active = -1;
+  while (active + 1 < cues.length && cues[active + 1] <= t) active++;
+  return active;
+}
+
+function pickMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return (
+    ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'].find((type) =>
+      MediaRecorder.isTypeSupported(type)
+    ) ?? null
+  );
+}
+
+// Safari no graba WebM
+export function canRecordWebm(): boolean {
+  return pickMimeType() !== null;
+}
+
+async function loadAudio(context: AudioContext, audio: AudioSegment, duration: number): Promise<AudioBuffer> {
+  const res = await fetch(audio.url).catch(() => null);
+  if (!res?.ok) throw new Error('Could not load the preview audio.');
+  const buffer = await context.decodeAudioData(await res.arrayBuffer());
+  if (audio.offset < 0 || (audio.offset + duration) / 1000 > buffer.duration) {
+    throw new Error(
+      "The preview clip doesn't cover these lines. Check where the clip starts in Playback mode, or export without audio."
+    );
+  }
+  return buffer;
+}
+
+// `keyframes[i + 1]` es la tarjeta con la línea `i` activa; `keyframes[0]`, antes de la primera.
+// MediaRecorder graba en tiempo real: en segundo plano el navegador frena los temporizadores y el
+// vídeo saldría entrecortado, así que no se empieza con la pestaña oculta y se corta si se oculta.
+export async function recordWebm(
+  keyframes: ImageBitmap[],
+  timeline: VideoTimeline,
+  audio?: AudioSegment,
+  onProgress?: (fraction: number) => void
+): Promise<Blob> {
+  const mimeType = pickMimeType();
+  if (!mimeType) throw new Error("This browser can't record WebM video.");
+  if (document.hidden) throw new Error(HIDDEN_TAB_MESSAGE);
+  const { cues, duration } = timeline;
+  const canvas = document.createElement('canvas');
+  canvas.width = keyframes[0].width;
+  canvas.height = keyframes[0].height;
+  const ctx = canvas.getContext('2d')!;
+
+  // Fundido desde el estado anterior durante los primeros FADE_MS de cada línea
+  const draw = (t: number) => {
+    const active = activeCue(cues, t);
+    const since = active >= 0 ? t - cues[active] : Infinity;
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = BACKGROUND;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (since < FADE_MS) {
+      ctx.drawImage(keyframes[activeCue(cues, cues[active] - 1) + 1], 0, 0);
+      ctx.globalAlpha = since / FADE_MS;
+    }
+    ctx.drawImage(keyframes[active + 1], 0, 0);
+  };
+  draw(0);
+
+  const stream = canvas.captureStream(FPS);
+  let audioContext: AudioContext | null = null;
+  let source: AudioBufferSourceNode | null = null;
+  let recorder: MediaRecorder | null = null;
+  let onVisibilityChange: (() => void) | null = null;
+  try {
+    if (audio) {
+      audioContext = new AudioContext();
+      const buffer = await loadAudio(audioContext, audio, duration);
+      const destination = audioContext.createMediaStreamDestination();
+      source = audioContext.createBufferSource();
+      source.buffer = buffer;
+      source.connect(destination);
+      for (const track of destination.stream.getAudioTracks()) stream.addTrack(track);
+    }
+
+    if (document.hidden) throw new Error(HIDDEN_TAB_MESSAGE);
+    const mediaRecorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+    recorder = mediaRecorder;
+    const chunks: Blob[] = [];
+    mediaRecorder.ondataavailable = (e) => {
+      if (e.data.size) chunks.push(e.data);
+    };
+    const stopped = new Promise<void>((resolve) => (mediaRecorder.onstop = () => resolve()));
+    mediaRecorder.start();
+    source?.start(0, audio!.offset / 1000, duration / 1000);
+    const startedAt = performance.now();
+    await new Promise<void>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      onVisibilityChange = () => {
+        if (!document.hidden) return;
+        clearTimeout(timer);
+        reject(new Error(HIDDEN_TAB_MESSAGE));
+      };
+      document.addEventListener('visibilitychange', onVisibilityChange);
+      const tick = () => {
+        const t = performance.now() - startedAt;
+        draw(Math.min(t, duration));
+        onProgress?.(Math.min(t / duration, 1));
+        if (t >= duration) resolve();
+        else timer = setTimeout(tick, 1000 / FPS);
+      };
+      tick();
+    });
+    mediaRecorder.stop();
+    await stopped;
+    return new Blob(chunks, { type: 'video/webm' });
+  } finally {
+    if (onVisibilityChange) document.removeEventListener('visibilitychange', onVisibilityChange);
+    if (recorder?.state === 'recording') recorder.stop();
+    for (const track of stream.getTracks()) track.stop();
+    await audioContext?.close();
+  }
+}
+
+// Un fotograma por estado, con su duración como retardo; sin fundidos
+export function encodeLyricGif(keyframes: ImageBitmap[], timeline: VideoTimeline): Uint8Array<ArrayBuffer> {
+  const { cues, duration } = timeline;
+  const scale = Math.min(1, GIF_MAX_SIZE / Math.max(keyframes[0].width, keyframes[0].height));
+  const width = Math.round(keyframes[0].width * scale);
+  const height = Math.round(keyframes[0].height * scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+
+  const frames: GifFrame[] = [];
+  for (let line = -1; line < cues.length; line++) {
+    const from = line < 0 ? 0 : cues[line];
+    const to = line + 1 < cues.length ? cues[line + 1] : duration;
+    // Líneas que aparecen a la vez (el "…" con el bloque siguiente)
+    if (to <= from) continue;
+    ctx.fillStyle = BACKGROUND;
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(keyframes[line + 1], 0, 0, width, height);
+    frames.push({ data: ctx.getImageData(0, 0, width, height).data, delay: Math.round((to - from) / 10) });
+  }
+  return encodeGif(width, height, frames);
+}
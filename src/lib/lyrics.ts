@@ -0,0 +1,178 @@
+// src/lib/lyrics.ts
+
+import type { LyricsRequest, LyricsResponse, SearchResult } from '@/lib/api/types';
+import {
+  createFileStore,
+  createTtlCache,
+  lyricsCacheKey,
+  lyricsTrackPrefix,
+  type CacheStatus,
+} from '@/lib/cache';
+import { probeAvailability } from '@/lib/lrclib';
+import { parseLrc, timelineToPlain } from '@/lib/lrc';
+import { matchQuality, type TrackMeta } from '@/lib/match';
+import { getConfiguredProviders, type LyricsResult } from '@/lib/providers';
+import type { LyricsCandidate } from '@/lib/providers/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Caché compartida por todas las peticiones del proceso; con LYRICS_CACHE_FILE persiste en disco.
+const lyricsCache = createTtlCache<LyricsResponse>({
+  maxEntries: parseInt(process.env.LYRICS_CACHE_MAX_ENTRIES ?? '500', 10),
+  ttlMs: parseFloat(process.env.LYRICS_CACHE_TTL_HOURS ?? '168') * HOUR_MS,
+  negativeTtlMs: parseFloat(process.env.LYRICS_CACHE_NEGATIVE_TTL_HOURS ?? '1') * HOUR_MS,
+  store: process.env.LYRICS_CACHE_FILE
+    ? createFileStore<LyricsResponse>(process.env.LYRICS_CACHE_FILE)
+    : undefined,
+});
+
+function cacheHeaders(status: CacheStatus, storedAt?: number): Record<string, string> {
+  const headers: Record<string, string> = { 'X-Lyrics-Cache': status };
+  if (storedAt !== undefined) {
+    headers['Age'] = String(Math.floor((Date.now() - storedAt) / 1000));
+  }
+  return headers;
+}
+
+// Consulta los proveedores configurados en orden; el primero con letra gana.
+async function lookupProviders(
+  meta: TrackMeta,
+  onlyProvider: string | null,
+  candidateId: number | undefined
+): Promise<LyricsResponse> {
+  const providers = getConfiguredProviders().filter(
+    (p) => !onlyProvider || p.id === onlyProvider
+  );
+  let found: LyricsResult | null = null;
+  let empty: LyricsResult | null = null;
+  const candidates: LyricsCandidate[] = [];
+  let firstError: unknown = null;
+  let failures = 0;
+
+  for (const provider of providers) {
+    let result: LyricsResult | null;
+    try {
+      result = await provider.lookup(meta, { candidateId });
+    } catch (err: unknown) {
+      console.error(`Lyrics provider "${provider.id}" failed:`, err);
+      firstError ??= err;
+      failures++;
+      continue;
+    }
+    if (!result) continue;
+    candidates.push(...result.candidates);
+    if (result.plainLyrics || result.syncedLyrics) {
+      found = result;
+      break;
+    }
+    if (result.match) empty ??= result;
+  }
+
+  // Un error solo se propaga si ningún proveedor respondió; si otro dijo "no hay letra", vale eso
+  if (!found && failures > 0 && failures === providers.length) throw firstError;
+
+  if (!found) {
+    const instrumental = !!empty?.instrumental;
+    return {
+      status: instrumental ? 'instrumental' : 'none',
+      lyrics: null,
+      source: empty?.source ?? null,
+      message: instrumental
+        ? 'This track is instrumental.'
+        : empty
+          ? 'The matching record has no lyrics yet.'
+          : 'No lyrics found.',
+      match: empty?.match ?? null,
+      quality: empty?.match ? matchQuality(meta, empty.match) : null,
+      candidates,
+    };
+  }
+  const parsed = found.syncedLyrics ? parseLrc(found.syncedLyrics) : null;
+  const synced = parsed && parsed.lines.length > 0 ? parsed : null;
+  return {
+    status: synced ? 'synced' : 'plain',
+    lyrics: found.plainLyrics || (synced ? timelineToPlain(synced) : null),
+    source: found.source,
+    attribution: found.attribution,
+    isSynced: !!synced,
+    synced,
+    match: found.match,
+    quality: found.match ? matchQuality(meta, found.match) : null,
+    candidates,
+  };
+}
+
+function requestMeta(req: Pick<LyricsRequest, 'trackName' | 'artistName' | 'albumName' | 'duration'>): TrackMeta {
+  return {
+    trackName: req.trackName,
+    artistName: req.artistName,
+    albumName: req.albumName,
+    duration: req.duration !== undefined ? Math.round(req.duration / 1000) : undefined,
+  };
+}
+
+// Búsqueda de letras con caché; devuelve también el estado de caché para las cabeceras.
+export async function getLyrics(
+  req: LyricsRequest
+): Promise<{ body: LyricsResponse; headers: Record<string, string> }> {
+  const meta = requestMeta(req);
+  const cacheKey = lyricsCacheKey(
+    meta,
+    req.provider ? [req.provider, String(req.candidateId)] : []
+  );
+
+  if (!req.refresh) {
+    const cached = await lyricsCache.get(cacheKey);
+    // Las entradas guardadas antes de existir `status` se vuelven a consultar
+    if (cached?.value.status) {
+      return {
+        body: cached.value,
+        headers: cacheHeaders(cached.negative ? 'NEGATIVE-HIT' : 'HIT', cached.storedAt),
+      };
+    }
+  }
+
+  const body = await lookupProviders(meta, req.provider ?? null, req.candidateId);
+  // "Instrumental" es una respuesta definitiva: se cachea como una letra encontrada
+  await lyricsCache.set(cacheKey, body, body.status === 'none');
+  return { body, headers: cacheHeaders(req.refresh ? 'BYPASS' : 'MISS') };
+}
+
+// Olvida la letra cacheada de una pista (p. ej. tras publicar una corrección en LRCLIB),
+// también la pedida con otro álbum o duración
+export async function invalidateLyrics(req: Pick<LyricsRequest, 'trackName' | 'artistName'>) {
+  await lyricsCache.deletePrefix(lyricsTrackPrefix(req));
+}
+
+// Consultas simultáneas al comprobar la letra de una página de resultados
+const AVAILABILITY_CONCURRENCY = 5;
+
+// Marca cada resultado con la letra disponible sin buscarla entera: la caché de letras y, si no
+// está, un solo /search a LRCLIB. Solo si LRCLIB es el primer proveedor; si no, uno anterior
+// podría tener la letra. Un fallo o un resultado sin registro claro queda sin marcar.
+export async function withLyricsAvailability(results: SearchResult[]): Promise<SearchResult[]> {
+  const out = [...results];
+  const probe = getConfiguredProviders()[0]?.id === 'lrclib';
+  let next = 0;
+  const worker = async () => {
+    while (next < out.length) {
+      const i = next++;
+      const song = out[i];
+      const meta = requestMeta({
+        trackName: song.title,
+        artistName: song.artist,
+        albumName: song.album || undefined,
+        duration: song.duration > 0 ? song.duration : undefined,
+      });
+      try {
+        const cached = await lyricsCache.get(lyricsCacheKey(meta));
+        const status = cached?.value.status ?? (probe ? await probeAvailability(meta) : null);
+        if (status) out[i] = { ...song, lyrics: status };
+      } catch {
+        // sin marcar
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(AVAILABILITY_CONCURRENCY, out.length) }, worker));
+  return out;
+}
@@ -0,0 +1,154 @@
+// src/lib/lyricsExport.ts
+
+// Letra como archivo: texto plano, LRC con etiquetas ID, subtítulos SRT/WebVTT y JSON.
+// Funciones puras, compartidas por /api/v1/lyrics/export y los enlaces de descarga del cliente.
+
+import type { LyricsExportFormat, LyricsExportJson, LyricsResponse } from '@/lib/api/types';
+import type { SyncedLine } from '@/lib/lrc';
+
+export const lyricsExportFormats: {
+  id: LyricsExportFormat;
+  name: string;
+  extension: string;
+  contentType: string;
+  // Necesita la letra sincronizada
+  synced: boolean;
+}[] = [
+  { id: 'txt', name: 'Text', extension: 'txt', contentType: 'text/plain; charset=utf-8', synced: false },
+  { id: 'lrc', name: 'LRC', extension: 'lrc', contentType: 'text/plain; charset=utf-8', synced: true },
+  { id: 'srt', name: 'SRT', extension: 'srt', contentType: 'application/x-subrip; charset=utf-8', synced: true },
+  { id: 'vtt', name: 'WebVTT', extension: 'vtt', contentType: 'text/vtt; charset=utf-8', synced: true },
+  { id: 'json', name: 'JSON', extension: 'json', contentType: 'application/json; charset=utf-8', synced: false },
+];
+
+// Duración del último subtítulo cuando no hay línea siguiente que lo cierre
+const LAST_CUE_MS = 5000;
+
+export interface LyricsExportInput {
+  title: string;
+  artist: string;
+  album?: string;
+  // Milisegundos; 0 o undefined si no se conoce
+  duration?: number;
+  lyrics: LyricsResponse;
+  // Desfase manual (ms) como el del modo karaoke: positivo = la letra aparece antes
+  offset?: number;
+}
+
+export interface LyricsFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+function pad(n: number, width = 2): string {
+  return String(n).padStart(width, '0');
+}
+
+// 83450 -> "01:23.45"
+export function formatLrcTime(ms: number): string {
+  const cs = Math.round(Math.max(0, ms) / 10);
+  return `${pad(Math.floor(cs / 6000))}:${pad(Math.floor(cs / 100) % 60)}.${pad(cs % 100)}`;
+}
+
+// 83450 -> "00:01:23,450" (SRT) o "00:01:23.450" (WebVTT)
+export function formatCueTime(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const h = Math.floor(total / 3_600_000);
+  const m = Math.floor(total / 60_000) % 60;
+  const s = Math.floor(total / 1000) % 60;
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(total % 1000, 3)}`;
+}
+
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Cada línea dura hasta la siguiente; la última, unos segundos sin pasar del final de la canción
+function cueEnd(lines: SyncedLine[], index: number, duration?: number): number {
+  const { time } = lines[index];
+  const next = lines[index + 1]?.time;
+  if (next !== undefined && next > time) return next;
+  return duration && duration > time ? Math.min(time + LAST_CUE_MS, duration) : time + LAST_CUE_MS;
+}
+
+// Las líneas vacías no generan subtítulo: solo cierran la anterior (pausas instrumentales)
+function toCues(lines: SyncedLine[], duration?: number): Cue[] {
+  return lines.flatMap((line, i) =>
+    line.text.trim() ? [{ start: line.time, end: cueEnd(lines, i, duration), text: line.text }] : []
+  );
+}
+
+function shiftLines(lines: SyncedLine[], offset: number): SyncedLine[] {
+  return offset ? lines.map((l) => ({ time: Math.max(0, l.time - offset), text: l.text })) : lines;
+}
+
+// "Artist - Title.lrc" sin caracteres que los sistemas de archivos no admiten
+export function lyricsFilename(artist: string, title: string, extension: string): string {
+  const base = `${artist} - ${title}`.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '').replace(/\s+/g, ' ').trim();
+  return `${base || 'lyrics'}.${extension}`;
+}
+
+// null si el formato necesita letra sincronizada y no la hay
+export function exportLyrics(input: LyricsExportInput, format: LyricsExportFormat): LyricsFile | null {
+  const { title, artist, album, duration, lyrics, offset = 0 } = input;
+  const spec = lyricsExportFormats.find((f) => f.id === format)!;
+  const synced = lyrics.isSynced && lyrics.synced?.lines.length ? shiftLines(lyrics.synced.lines, offset) : null;
+  if (spec.synced && !synced) return null;
+
+  let content: string;
+  switch (format) {
+    case 'lrc': {
+      const tags: [string, string | undefined][] = [
+        ['ti', title],
+        ['ar', artist],
+        ['al', album],
+        ['length', duration ? formatLrcTime(duration).slice(0, 5) : undefined],
+      ];
+      content = [
+        ...tags.filter(([, value]) => value).map(([key, value]) => `[${key}:${value}]`),
+        ...synced!.map((l) => `[${formatLrcTime(l.time)}]${l.text}`),
+      ].join('\n');
+      break;
+    }
+    case 'srt':
+      content = toCues(synced!, duration)
+        .map((c, i) => `${i + 1}\n${formatCueTime(c.start, ',')} --> ${formatCueTime(c.end, ',')}\n${c.text}\n`)
+        .join('\n');
+      break;
+    case 'vtt':
+      content = [
+        `WEBVTT - ${artist} - ${title}\n`,
+        ...toCues(synced!, duration).map(
+          (c) => `${formatCueTime(c.start, '.')} --> ${formatCueTime(c.end, '.')}\n${c.text.replace(/-->/g, '->')}\n`
+        ),
+      ].join('\n');
+      break;
+    case 'json': {
+      const json: LyricsExportJson = {
+        title,
+        artist,
+        album: album ?? null,
+        duration: duration || null,
+        source: lyrics.source,
+        attribution: lyrics.attribution ?? null,
+        synced: !!synced,
+        lines: synced
+          ? synced.map((l, i) => ({ text: l.text, start: l.time, end: l.text.trim() ? cueEnd(synced, i, duration) : null }))
+          : (lyrics.lyrics ?? '').split('\n').map((text) => ({ text, start: null, end: null })),
+      };
+      content = JSON.stringify(json, null, 2);
+      break;
+    }
+    default:
+      content = lyrics.lyrics ?? '';
+  }
+
+  return {
+    filename: lyricsFilename(artist, title, spec.extension),
+    contentType: spec.contentType,
+    content: content.endsWith('\n') ? content : `${content}\n`,
+  };
+}
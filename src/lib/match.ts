@@ -0,0 +1,155 @@
+// src/lib/match.ts
+
+// Normalización y puntuación para emparejar metadatos de Spotify con registros de LRCLIB.
+
+export interface TrackMeta {
+  trackName: string;
+  artistName: string;
+  albumName?: string;
+  // Duración en segundos
+  duration?: number;
+}
+
+// Por debajo de este valor no aceptamos un candidato automáticamente
+export const MIN_CONFIDENCE = 0.6;
+// Diferencia de duración (s) que se considera idéntica / totalmente distinta
+const DURATION_EXACT_S = 2;
+const DURATION_MAX_S = 10;
+
+// Quita acentos, "(Remastered 2011)", "- Live", "feat. X" y puntuación.
+export function normalizeTitle(value: string): string {
+  return normalizeText(
+    value
+      .replace(/\s*[([][^)\]]*[)\]]/g, ' ')
+      .replace(/\s+-\s+.*$/, ' ')
+      .replace(/\s+(feat\.?|ft\.?|featuring|with)\s+.*$/i, ' ')
+  );
+}
+
+export function normalizeText(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// "A, B feat. C & D" -> ["a", "b", "c", "d"]
+export function splitArtists(value: string): string[] {
+  return value
+    .split(/,|;|\/|\s+&\s+|\s+x\s+|\s+(?:feat\.?|ft\.?|featuring|with|and)\s+/i)
+    .map(normalizeText)
+    .filter(Boolean);
+}
+
+function bigrams(value: string): string[] {
+  const s = value.replace(/\s+/g, '');
+  const out: string[] = [];
+  for (let i = 0; i < s.length - 1; i++) out.push(s.slice(i, i + 2));
+  return out;
+}
+
+// Coeficiente de Dice sobre bigramas: 1 = idénticos, 0 = nada en común.
+export function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) return 0;
+  const counts = new Map<string, number>();
+  for (const g of left) counts.set(g, (counts.get(g) ?? 0) + 1);
+  let overlap = 0;
+  for (const g of right) {
+    const n = counts.get(g) ?? 0;
+    if (n > 0) {
+      overlap++;
+      counts.set(g, n - 1);
+    }
+  }
+  return (2 * overlap) / (left.length + right.length);
+}
+
+export function titleSimilarity(a: string, b: string): number {
+  return Math.max(similarity(normalizeTitle(a), normalizeTitle(b)), similarity(normalizeText(a), normalizeText(b)));
+}
+
+// Mejor coincidencia entre cualquier par de artistas de ambos lados.
+export function artistSimilarity(a: string, b: string): number {
+  const left = splitArtists(a);
+  const right = splitArtists(b);
+  let best = similarity(normalizeText(a), normalizeText(b));
+  for (const x of left) {
+    for (const y of right) best = Math.max(best, similarity(x, y));
+  }
+  return best;
+}
+
+export function durationScore(expected?: number, actual?: number): number {
+  if (expected === undefined || actual === undefined) return 0.5;
+  const diff = Math.abs(expected - actual);
+  if (diff <= DURATION_EXACT_S) return 1;
+  if (diff >= DURATION_MAX_S) return 0;
+  return 1 - (diff - DURATION_EXACT_S) / (DURATION_MAX_S - DURATION_EXACT_S);
+}
+
+// Confianza 0..1 de que `candidate` sea la misma grabación que `query`.
+export function scoreMatch(query: TrackMeta, candidate: TrackMeta): number {
+  const title = titleSimilarity(query.trackName, candidate.trackName);
+  const artist = artistSimilarity(query.artistName, candidate.artistName);
+  const duration = durationScore(query.duration, candidate.duration);
+  return Math.round((0.5 * title + 0.3 * artist + 0.2 * duration) * 100) / 100;
+}
+
+// Etiquetas que distinguen versiones de una misma canción con letra distinta o recortada
+const VERSION_TAGS = ['live', 'acoustic', 'unplugged', 'remix', 'mix', 'edit', 'demo', 'instrumental', 'karaoke', 'sped up', 'slowed'];
+// Similitud por debajo de la cual título o artista se consideran otros
+const MIN_FIELD_SIMILARITY = 0.75;
+
+// Comparación del registro encontrado con la pista pedida, para avisar de posibles versiones distintas
+export interface MatchQuality {
+  // Segundos (registro - pista); null si falta alguna duración
+  durationDelta: number | null;
+  titleSimilarity: number;
+  // null si el registro no tiene artista (archivos locales "Title.lrc")
+  artistSimilarity: number | null;
+  // Motivos legibles, vacío si todo cuadra
+  warnings: string[];
+  mismatch: boolean;
+}
+
+function versionTags(title: string): string[] {
+  const text = ` ${normalizeText(title)} `;
+  return VERSION_TAGS.filter((tag) => text.includes(` ${tag} `));
+}
+
+export function matchQuality(query: TrackMeta, candidate: TrackMeta): MatchQuality {
+  const warnings: string[] = [];
+  const durationDelta =
+    query.duration !== undefined && candidate.duration ? Math.round(candidate.duration - query.duration) : null;
+  if (durationDelta !== null && Math.abs(durationDelta) >= DURATION_MAX_S) {
+    warnings.push(`Duration differs by ${Math.abs(durationDelta)} s.`);
+  }
+
+  const title = titleSimilarity(query.trackName, candidate.trackName);
+  if (title < MIN_FIELD_SIMILARITY) warnings.push(`Title differs: "${candidate.trackName}".`);
+  const queryTags = versionTags(query.trackName);
+  const candidateTags = versionTags(candidate.trackName);
+  if (queryTags.join() !== candidateTags.join()) {
+    const describe = (tags: string[]) => (tags.length ? tags.join(', ') : 'original');
+    warnings.push(`Version differs: ${describe(candidateTags)} instead of ${describe(queryTags)}.`);
+  }
+
+  const artist = candidate.artistName ? artistSimilarity(query.artistName, candidate.artistName) : null;
+  if (artist !== null && artist < MIN_FIELD_SIMILARITY) warnings.push(`Artist differs: "${candidate.artistName}".`);
+
+  return {
+    durationDelta,
+    titleSimilarity: Math.round(title * 100) / 100,
+    artistSimilarity: artist === null ? null : Math.round(artist * 100) / 100,
+    warnings,
+    mismatch: warnings.length > 0,
+  };
+}
@@ -0,0 +1,41 @@
+// src/lib/proofOfWork.ts
+
+// Prueba de trabajo de LRCLIB: buscar un nonce tal que sha256(prefix + nonce) <= target
+// (comparando los bytes). Se resuelve en un worker_thread para no bloquear el servidor.
+
+import { Worker } from 'worker_threads';
+
+export const POW_TIMEOUT_MS = 5 * 60_000;
+
+// Código del worker en línea: un archivo aparte no sobrevive al empaquetado de Next
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const { createHash } = require('crypto');
+const target = Buffer.from(workerData.target, 'hex');
+for (let nonce = 0; ; nonce++) {
+  if (Buffer.compare(createHash('sha256').update(workerData.prefix + nonce).digest(), target) <= 0) {
+    parentPort.postMessage(String(nonce));
+    break;
+  }
+}
+`;
+
+// Devuelve el nonce como texto; lanza si no lo encuentra antes de `timeoutMs`
+export function solveChallenge(prefix: string, targetHex: string, timeoutMs = POW_TIMEOUT_MS): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(WORKER_SOURCE, { eval: true, workerData: { prefix, target: targetHex } });
+    const timer = setTimeout(() => {
+      void worker.terminate();
+      reject(new Error(`Proof-of-work challenge not solved within ${timeoutMs / 1000}s.`));
+    }, timeoutMs);
+    worker.once('message', (nonce: string) => {
+      clearTimeout(timer);
+      void worker.terminate();
+      resolve(nonce);
+    });
+    worker.once('error', (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+  });
+}
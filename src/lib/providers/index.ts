@@ -0,0 +1,33 @@
+// src/lib/providers/index.ts
+
+import { createLocalProvider } from '@/lib/providers/local';
+import { lrclibProvider } from '@/lib/providers/lrclib';
+import type { LyricsProvider } from '@/lib/providers/types';
+
+export type { LyricsProvider, LyricsResult } from '@/lib/providers/types';
+
+// Orden de consulta configurable con LYRICS_PROVIDERS="local,lrclib".
+// Por defecto: local (si hay LYRICS_LOCAL_DIR) y después LRCLIB.
+export function getConfiguredProviders(): LyricsProvider[] {
+  const localDir = process.env.LYRICS_LOCAL_DIR;
+  const available: Record<string, LyricsProvider | undefined> = {
+    lrclib: lrclibProvider,
+    local: localDir ? createLocalProvider(localDir) : undefined,
+  };
+
+  const order = (process.env.LYRICS_PROVIDERS ?? (localDir ? 'local,lrclib' : 'lrclib'))
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers: LyricsProvider[] = [];
+  for (const id of order) {
+    const provider = available[id];
+    if (!provider) {
+      console.warn(`Unknown or unconfigured lyrics provider "${id}", skipping.`);
+      continue;
+    }
+    if (!providers.includes(provider)) providers.push(provider);
+  }
+  return providers;
+}
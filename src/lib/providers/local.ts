@@ -0,0 +1,129 @@
+// src/lib/providers/local.ts
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseLrc } from '@/lib/lrc';
+import { MIN_CONFIDENCE, scoreMatch, type TrackMeta } from '@/lib/match';
+import type { LyricsCandidate, LyricsProvider } from '@/lib/providers/types';
+
+const EXTENSIONS = ['.lrc', '.txt'];
+// El índice se rehace si cambia el directorio (mtime) o pasado este tiempo, por si se edita un archivo
+const INDEX_TTL_MS = 60_000;
+
+interface LocalFile {
+  id: number;
+  file: string;
+  meta: TrackMeta;
+}
+
+interface DirIndex {
+  mtimeMs: number;
+  builtAt: number;
+  files: Promise<LocalFile[]>;
+}
+
+const indexes = new Map<string, DirIndex>();
+
+// Id estable del archivo: no cambia al añadir o quitar otros del directorio
+function fileId(file: string): number {
+  return createHash('sha256').update(file).digest().readUInt32BE(0) >>> 1;
+}
+
+// "Artist - Title.lrc" -> metadatos; en un .lrc las etiquetas [ti:]/[ar:]/[al:]/[length:] mandan.
+async function readFileMeta(dir: string, file: string): Promise<LocalFile> {
+  const base = path.basename(file, path.extname(file));
+  const dash = base.indexOf(' - ');
+  const meta: TrackMeta =
+    dash >= 0
+      ? { artistName: base.slice(0, dash), trackName: base.slice(dash + 3) }
+      : { artistName: '', trackName: base };
+
+  if (path.extname(file).toLowerCase() === '.lrc') {
+    const { metadata } = parseLrc(await fs.readFile(path.join(dir, file), 'utf8'));
+    if (metadata.ti) meta.trackName = metadata.ti;
+    if (metadata.ar) meta.artistName = metadata.ar;
+    if (metadata.al) meta.albumName = metadata.al;
+    const length = /^(\d+):(\d{1,2})/.exec(metadata.length ?? '');
+    if (length) meta.duration = parseInt(length[1], 10) * 60 + parseInt(length[2], 10);
+  }
+  return { id: fileId(file), file, meta };
+}
+
+// Metadatos de todos los archivos; uno ilegible se salta sin tumbar el proveedor
+async function buildIndex(dir: string): Promise<LocalFile[]> {
+  const files = (await fs.readdir(dir)).filter((f) => EXTENSIONS.includes(path.extname(f).toLowerCase())).sort();
+  const read = await Promise.allSettled(files.map((file) => readFileMeta(dir, file)));
+  return read.flatMap((result, i) => {
+    if (result.status === 'fulfilled') return [result.value];
+    console.warn(`Skipping unreadable local lyrics file ${files[i]}:`, result.reason);
+    return [];
+  });
+}
+
+async function dirIndex(dir: string): Promise<LocalFile[]> {
+  const { mtimeMs } = await fs.stat(dir);
+  const cached = indexes.get(dir);
+  if (cached && cached.mtimeMs === mtimeMs && Date.now() - cached.builtAt < INDEX_TTL_MS) return cached.files;
+  const files = buildIndex(dir);
+  indexes.set(dir, { mtimeMs, builtAt: Date.now(), files });
+  files.catch(() => indexes.delete(dir));
+  return files;
+}
+
+// Lee letras de un directorio local (LYRICS_LOCAL_DIR): archivos .lrc (sincronizados) o .txt (texto plano).
+export function createLocalProvider(dir: string): LyricsProvider {
+  return {
+    id: 'local',
+    name: 'Local files',
+
+    async lookup(query, options) {
+      let files: LocalFile[];
+      try {
+        files = await dirIndex(dir);
+      } catch (err: unknown) {
+        console.warn(`Local lyrics directory not readable (${dir}):`, err);
+        return null;
+      }
+
+      const scored = files.map(({ id, file, meta }) => {
+        // Sin artista en el nombre, solo puntúa el título
+        const candidate: TrackMeta = { ...meta, artistName: meta.artistName || query.artistName };
+        return { id, file, meta, confidence: scoreMatch(query, candidate) };
+      });
+
+      const chosen =
+        options?.candidateId !== undefined
+          ? scored.find((s) => s.id === options.candidateId)
+          : [...scored].sort((a, b) => b.confidence - a.confidence)[0];
+      if (!chosen || (options?.candidateId === undefined && chosen.confidence < MIN_CONFIDENCE)) {
+        return null;
+      }
+
+      const content = await fs.readFile(path.join(dir, chosen.file), 'utf8');
+      const isLrc = path.extname(chosen.file).toLowerCase() === '.lrc';
+      const candidate: LyricsCandidate = {
+        source: 'local',
+        id: chosen.id,
+        trackName: chosen.meta.trackName,
+        artistName: chosen.meta.artistName,
+        albumName: chosen.meta.albumName ?? '',
+        duration: chosen.meta.duration ?? 0,
+        hasSynced: isLrc,
+        confidence: chosen.confidence,
+      };
+      return {
+        source: 'local',
+        attribution: 'local library',
+        plainLyrics: isLrc ? null : content,
+        syncedLyrics: isLrc ? content : null,
+        instrumental: false,
+        match: {
+          ...candidate,
+          strategy: options?.candidateId !== undefined ? 'manual' : 'file',
+        },
+        candidates: [],
+      };
+    },
+  };
+}
@@ -0,0 +1,35 @@
+// src/lib/providers/lrclib.ts
+
+import { getLyricsById, resolveLyrics, toCandidate, type ResolvedLyrics } from '@/lib/lrclib';
+import type { LyricsProvider } from '@/lib/providers/types';
+
+export const lrclibProvider: LyricsProvider = {
+  id: 'lrclib',
+  name: 'LRCLIB',
+
+  async lookup(query, options) {
+    let resolved: ResolvedLyrics;
+    if (options?.candidateId !== undefined) {
+      const record = await getLyricsById(options.candidateId);
+      resolved = {
+        record,
+        match: record ? { ...toCandidate(query, record), strategy: 'manual' } : null,
+        candidates: [],
+      };
+    } else {
+      resolved = await resolveLyrics(query);
+    }
+
+    const { record, match, candidates } = resolved;
+    if (!record && candidates.length === 0) return null;
+    return {
+      source: 'lrclib',
+      attribution: 'LRCLIB',
+      plainLyrics: record?.plainLyrics || null,
+      syncedLyrics: record?.syncedLyrics || null,
+      instrumental: !!record?.instrumental,
+      match,
+      candidates,
+    };
+  },
+};
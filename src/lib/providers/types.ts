@@ -0,0 +1,47 @@
+// src/lib/providers/types.ts
+
+import type { TrackMeta } from '@/lib/match';
+
+export type MatchStrategy = 'exact' | 'no-album' | 'search' | 'manual' | 'file';
+
+// Registro alternativo que el usuario puede elegir en "wrong lyrics? pick another"
+export interface LyricsCandidate {
+  // Proveedor que puede resolver este candidato
+  source: string;
+  id: number;
+  trackName: string;
+  artistName: string;
+  albumName: string;
+  duration: number;
+  hasSynced: boolean;
+  confidence: number;
+}
+
+export interface LyricsMatch extends LyricsCandidate {
+  strategy: MatchStrategy;
+}
+
+// Resultado de un proveedor. `plainLyrics`/`syncedLyrics` son texto crudo (el LRC se parsea en la ruta).
+export interface LyricsResult {
+  source: string;
+  // Texto de crédito para la tarjeta, p. ej. "LRCLIB"
+  attribution: string;
+  plainLyrics: string | null;
+  syncedLyrics: string | null;
+  // El registro marca la pista como instrumental (sin letra a propósito)
+  instrumental: boolean;
+  match: LyricsMatch | null;
+  candidates: LyricsCandidate[];
+}
+
+export interface LyricsLookupOptions {
+  // Forzar un candidato concreto devuelto antes por este mismo proveedor
+  candidateId?: number;
+}
+
+export interface LyricsProvider {
+  id: string;
+  name: string;
+  // null = el proveedor no tiene nada para esta pista
+  lookup(query: TrackMeta, options?: LyricsLookupOptions): Promise<LyricsResult | null>;
+}
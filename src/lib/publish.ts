@@ -0,0 +1,49 @@
+// src/lib/publish.ts
+
+import axios from 'axios';
+import { ApiError } from '@/lib/api/errors';
+import type { PublishRequest } from '@/lib/api/types';
+import { publishLyrics, requestPublishChallenge, type LrclibPublishPayload } from '@/lib/lrclib';
+import { invalidateLyrics } from '@/lib/lyrics';
+import { solveChallenge } from '@/lib/proofOfWork';
+
+// Un reto caducado entre resolverlo y publicar se pide de nuevo una vez
+const PUBLISH_ATTEMPTS = 2;
+
+interface LrclibErrorBody {
+  name?: string;
+  message?: string;
+}
+
+// Publica en LRCLIB: pide el reto, lo resuelve, publica y olvida la letra cacheada de la pista
+export async function publishToLrclib(req: PublishRequest): Promise<void> {
+  const payload: LrclibPublishPayload = {
+    trackName: req.trackName,
+    artistName: req.artistName,
+    albumName: req.albumName,
+    duration: Math.round(req.duration / 1000),
+    plainLyrics: req.plainLyrics,
+    syncedLyrics: req.syncedLyrics ?? '',
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    const { prefix, target } = await requestPublishChallenge();
+    let nonce: string;
+    try {
+      nonce = await solveChallenge(prefix, target);
+    } catch (err: unknown) {
+      throw new ApiError('upstream_error', err instanceof Error ? err.message : String(err), 'lrclib');
+    }
+    try {
+      await publishLyrics(payload, `${prefix}:${nonce}`);
+      break;
+    } catch (err: unknown) {
+      if (!axios.isAxiosError<LrclibErrorBody>(err) || err.response?.status !== 400) throw err;
+      const body = err.response.data;
+      if (body?.name === 'IncorrectPublishTokenError' && attempt < PUBLISH_ATTEMPTS) continue;
+      throw new ApiError('upstream_error', `LRCLIB rejected the lyrics: ${body?.message ?? 'bad request'}.`, 'lrclib', 400);
+    }
+  }
+
+  await invalidateLyrics(req);
+}
@@ -0,0 +1,36 @@
+// src/lib/rateLimit.ts
+
+// Límite de peticiones por cliente con ventana deslizante, en memoria del proceso.
+
+export interface RateLimitOptions {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimiter {
+  // Cuenta una petición del cliente; null si cabe, o los ms hasta que quede hueco
+  take(key: string): number | null;
+}
+
+export function createRateLimiter({ limit, windowMs }: RateLimitOptions): RateLimiter {
+  // Instantes de las peticiones aceptadas dentro de la ventana, por cliente
+  const hits = new Map<string, number[]>();
+
+  return {
+    take(key) {
+      const now = Date.now();
+      const recent = (hits.get(key) ?? []).filter((t) => t > now - windowMs);
+      if (recent.length >= limit) {
+        hits.set(key, recent);
+        return recent[0] + windowMs - now;
+      }
+      recent.push(now);
+      hits.set(key, recent);
+      // Sin esto el Map crecería con cada cliente que pasó alguna vez
+      for (const [other, times] of hits) {
+        if (times[times.length - 1] <= now - windowMs) hits.delete(other);
+      }
+      return null;
+    },
+  };
+}
@@ -0,0 +1,166 @@
+// src/lib/romanize.ts
+
+// Romanización integrada para kana (Hepburn), hangul (romanización revisada) y cirílico.
+// Es una transliteración letra a letra: los kanji se dejan tal cual (necesitan diccionario)
+// y del coreano solo se aplica el enlace de la consonante final con la vocal siguiente.
+
+// Destino de /api/v1/translation que pide la romanización en lugar de una traducción
+export const ROMANIZED_TARGET = 'romanized';
+
+export type RomanizableScript = 'kana' | 'hangul' | 'cyrillic';
+
+const SCRIPT_RES: Record<RomanizableScript, RegExp> = {
+  kana: /[ぁ-ゖァ-ヺー]/,
+  hangul: /[가-힣]/,
+  cyrillic: /[Ѐ-ӿ]/,
+};
+
+// Escrituras romanizables presentes en el texto
+export function detectScripts(text: string): RomanizableScript[] {
+  return (Object.keys(SCRIPT_RES) as RomanizableScript[]).filter((s) => SCRIPT_RES[s].test(text));
+}
+
+export function needsRomanization(text: string): boolean {
+  return detectScripts(text).length > 0;
+}
+
+// --- Kana ---
+
+const KANA: Record<string, string> = {
+  あ: 'a', い: 'i', う: 'u', え: 'e', お: 'o',
+  か: 'ka', き: 'ki', く: 'ku', け: 'ke', こ: 'ko',
+  が: 'ga', ぎ: 'gi', ぐ: 'gu', げ: 'ge', ご: 'go',
+  さ: 'sa', し: 'shi', す: 'su', せ: 'se', そ: 'so',
+  ざ: 'za', じ: 'ji', ず: 'zu', ぜ: 'ze', ぞ: 'zo',
+  た: 'ta', ち: 'chi', つ: 'tsu', て: 'te', と: 'to',
+  だ: 'da', ぢ: 'ji', づ: 'zu', で: 'de', ど: 'do',
+  な: 'na', に: 'ni', ぬ: 'nu', ね: 'ne', の: 'no',
+  は: 'ha', ひ: 'hi', ふ: 'fu', へ: 'he', ほ: 'ho',
+  ば: 'ba', び: 'bi', ぶ: 'bu', べ: 'be', ぼ: 'bo',
+  ぱ: 'pa', ぴ: 'pi', ぷ: 'pu', ぺ: 'pe', ぽ: 'po',
+  ま: 'ma', み: 'mi', む: 'mu', め: 'me', も: 'mo',
+  や: 'ya', ゆ: 'yu', よ: 'yo',
+  ら: 'ra', り: 'ri', る: 'ru', れ: 're', ろ: 'ro',
+  わ: 'wa', ゐ: 'i', ゑ: 'e', を: 'o', ん: 'n', ゔ: 'vu',
+  ぁ: 'a', ぃ: 'i', ぅ: 'u', ぇ: 'e', ぉ: 'o', ゎ: 'wa', ゕ: 'ka', ゖ: 'ke',
+};
+
+const SMALL_Y: Record<string, string> = { ゃ: 'a', ゅ: 'u', ょ: 'o' };
+const SMALL_VOWELS = new Set(['ぁ', 'ぃ', 'ぅ', 'ぇ', 'ぉ']);
+const VOWEL_RE = /[aeiou]$/;
+
+// Katakana -> hiragana (mismo orden en Unicode, desplazado 0x60); ヷ-ヺ no tienen pareja
+function toHiragana(ch: string): string {
+  const code = ch.charCodeAt(0);
+  return code >= 0x30a1 && code <= 0x30f6 ? String.fromCharCode(code - 0x60) : ch;
+}
+
+function romanizeKana(text: string): string {
+  const chars = [...text].map(toHiragana);
+  let out = '';
+  let geminate = false;
+  for (let i = 0; i < chars.length; i++) {
+    const ch = chars[i];
+    const next = chars[i + 1];
+
+    if (ch === 'っ') {
+      geminate = true;
+      continue;
+    }
+    // Vocal larga de katakana: repite la vocal anterior
+    if (ch === 'ー') {
+      out += VOWEL_RE.exec(out)?.[0] ?? '';
+      continue;
+    }
+    let roman = KANA[ch];
+    if (roman === undefined) {
+      geminate = false;
+      out += ch;
+      continue;
+    }
+
+    if (next && SMALL_Y[next] && roman.endsWith('i') && roman.length > 1) {
+      // きゃ kya, しゃ sha, ちゃ cha, じゃ ja
+      const stem = roman.slice(0, -1);
+      roman = (/(sh|ch|j)$/.test(stem) ? stem : `${stem}y`) + SMALL_Y[next];
+      i++;
+    } else if (next && SMALL_VOWELS.has(next) && (roman.length > 1 || roman === 'u' || roman === 'i')) {
+      // ファ fa, ティ ti, ウェ we, イェ ye
+      const stem = roman === 'u' ? 'w' : roman === 'i' ? 'y' : roman.replace(VOWEL_RE, '');
+      roman = stem + KANA[next];
+      i++;
+    }
+
+    if (ch === 'ん' && next && /^[aeiouy]/.test(KANA[next] ?? '')) roman = "n'";
+    if (geminate) {
+      roman = roman.startsWith('ch') ? `t${roman}` : roman[0] + roman;
+      geminate = false;
+    }
+    out += roman;
+  }
+  return out;
+}
+
+// --- Hangul ---
+
+const HANGUL_BASE = 0xac00;
+const INITIALS = ['g', 'kk', 'n', 'd', 'tt', 'r', 'm', 'b', 'pp', 's', 'ss', '', 'j', 'jj', 'ch', 'k', 't', 'p', 'h'];
+const VOWELS = [
+  'a', 'ae', 'ya', 'yae', 'eo', 'e', 'yeo', 'ye', 'o', 'wa', 'wae',
+  'oe', 'yo', 'u', 'wo', 'we', 'wi', 'yu', 'eu', 'ui', 'i',
+];
+// Final al cerrar sílaba y final enlazado con una sílaba que empieza por ㅇ muda
+const FINALS = ['', 'k', 'k', 'k', 'n', 'n', 'n', 't', 'l', 'k', 'm', 'l', 'l', 'l', 'p', 'l', 'm', 'p', 'p', 't', 't', 'ng', 't', 't', 'k', 't', 'p', 't'];
+const LINKED_FINALS = ['', 'g', 'kk', 'gs', 'n', 'nj', 'n', 'd', 'r', 'lg', 'lm', 'lb', 'ls', 'lt', 'lp', 'r', 'm', 'b', 'bs', 's', 'ss', 'ng', 'j', 'ch', 'k', 't', 'p', ''];
+const SILENT_INITIAL = 11;
+
+function hangulParts(ch: string | undefined): [number, number, number] | null {
+  if (!ch) return null;
+  const index = ch.charCodeAt(0) - HANGUL_BASE;
+  if (index < 0 || index > 11171) return null;
+  return [Math.floor(index / 588), Math.floor((index % 588) / 28), index % 28];
+}
+
+function romanizeHangul(text: string): string {
+  const chars = [...text];
+  return chars
+    .map((ch, i) => {
+      const parts = hangulParts(ch);
+      if (!parts) return ch;
+      const [initial, vowel, final] = parts;
+      const next = hangulParts(chars[i + 1]);
+      const linked = next !== null && next[0] === SILENT_INITIAL;
+      return INITIALS[initial] + VOWELS[vowel] + (linked ? LINKED_FINALS[final] : FINALS[final]);
+    })
+    .join('');
+}
+
+// --- Cirílico ---
+
+const CYRILLIC: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ё: 'yo', ж: 'zh', з: 'z', и: 'i', й: 'y',
+  к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u', ф: 'f',
+  х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch', ъ: '', ы: 'y', ь: '', э: 'e', ю: 'yu', я: 'ya',
+  // Ucraniano, bielorruso y serbio/macedonio
+  є: 'ye', і: 'i', ї: 'yi', ґ: 'g', ў: 'w', ј: 'j', љ: 'lj', њ: 'nj', ђ: 'dj', ћ: 'c', џ: 'dz', ѓ: 'gj', ќ: 'kj', ѕ: 'dz',
+};
+
+function romanizeCyrillic(text: string): string {
+  return [...text]
+    .map((ch) => {
+      const lower = ch.toLowerCase();
+      const roman = CYRILLIC[lower];
+      if (roman === undefined) return ch;
+      return ch !== lower && roman ? roman[0].toUpperCase() + roman.slice(1) : roman;
+    })
+    .join('');
+}
+
+// Romaniza lo que reconoce y deja el resto del texto intacto
+export function romanize(text: string): string {
+  let out = text;
+  if (SCRIPT_RES.kana.test(out)) out = romanizeKana(out);
+  if (SCRIPT_RES.hangul.test(out)) out = romanizeHangul(out);
+  if (SCRIPT_RES.cyrillic.test(out)) out = romanizeCyrillic(out);
+  return out;
+}
@@ -0,0 +1,95 @@
+// src/lib/selection.ts
+
+// Selección de líneas de letra: saltos, rangos con shift y fragmentos parciales de línea.
+
+import type { LyricsResponse } from '@/lib/api/types';
+
+export const DEFAULT_MAX_SELECTED_LINES = 4;
+export const MAX_SELECTED_LINES_LIMIT = 20;
+// Separador entre bloques no consecutivos en la tarjeta
+export const SELECTION_GAP = '…';
+
+// Fragmento elegido dentro de una línea (índice -> texto)
+export type LineExcerpts = Record<number, string>;
+
+export type SelectionResult =
+  | { ok: true; indices: number[] }
+  | { ok: false; reason: string };
+
+function tooMany(max: number): SelectionResult {
+  return { ok: false, reason: `Only ${max} lines allowed.` };
+}
+
+// Clic normal: añade o quita una línea
+export function toggleLine(selected: number[], index: number, max: number): SelectionResult {
+  if (selected.includes(index)) {
+    return { ok: true, indices: selected.filter((i) => i !== index) };
+  }
+  if (selected.length >= max) return tooMany(max);
+  return { ok: true, indices: [...selected, index].sort((a, b) => a - b) };
+}
+
+// Shift-clic: añade todo el rango desde la última línea pulsada (ancla)
+export function selectRange(
+  selected: number[],
+  anchor: number | null,
+  index: number,
+  max: number,
+  isSelectable: (i: number) => boolean = () => true
+): SelectionResult {
+  if (anchor === null) return toggleLine(selected, index, max);
+  const [from, to] = anchor < index ? [anchor, index] : [index, anchor];
+  const merged = new Set(selected);
+  for (let i = from; i <= to; i++) {
+    if (isSelectable(i)) merged.add(i);
+  }
+  if (merged.size > max) return tooMany(max);
+  return { ok: true, indices: [...merged].sort((a, b) => a - b) };
+}
+
+// [1,2,3,7,8] -> [[1,2,3],[7,8]]
+export function groupRuns(indices: number[]): number[][] {
+  const runs: number[][] = [];
+  for (const i of [...indices].sort((a, b) => a - b)) {
+    const last = runs.at(-1);
+    if (last && i === last[last.length - 1] + 1) last.push(i);
+    else runs.push([i]);
+  }
+  return runs;
+}
+
+// Texto de la tarjeta: fragmentos parciales aplicados y "…" entre bloques no consecutivos
+export function buildCardLines(indices: number[], lines: string[], excerpts: LineExcerpts = {}): string[] {
+  const out: string[] = [];
+  groupRuns(indices).forEach((run, r) => {
+    if (r > 0) out.push(SELECTION_GAP);
+    for (const i of run) out.push(excerpts[i] ?? lines[i] ?? '');
+  });
+  return out;
+}
+
+// Marca de tiempo de cada línea de la tarjeta (ms); el "…" aparece con el bloque que le sigue
+export function buildCardLineTimes(indices: number[], times: number[]): number[] {
+  const out: number[] = [];
+  groupRuns(indices).forEach((run, r) => {
+    if (r > 0) out.push(times[run[0]]);
+    for (const i of run) out.push(times[i]);
+  });
+  return out;
+}
+
+// Línea secundaria de cada línea de la tarjeta (traducción); vacía en los "…" y donde no hay
+export function buildCardSecondaryLines(indices: number[], secondary: (string | null)[]): string[] {
+  const out: string[] = [];
+  groupRuns(indices).forEach((run, r) => {
+    if (r > 0) out.push('');
+    for (const i of run) out.push(secondary[i] ?? '');
+  });
+  return out;
+}
+
+// Líneas tal como las muestra la app (sincronizadas si las hay): los índices de selección se refieren a estas
+export function lyricsDisplayLines(res: LyricsResponse): string[] | null {
+  if (res.isSynced && res.synced?.lines.length) return res.synced.lines.map((l) => l.text);
+  return res.lyrics?.split('\n') ?? null;
+}
@@ -0,0 +1,162 @@
+// src/lib/spotify.ts
+
+import type { NextRequest } from 'next/server';
+import SpotifyWebApi from 'spotify-web-api-node';
+import type { PlaylistSummary, SearchResult } from '@/lib/api/types';
+import { ApiError } from '@/lib/api/errors';
+import { getSession } from '@/lib/auth/session';
+import { callUpstream } from '@/lib/upstream';
+
+// Máximos por página de la API de Spotify
+const PLAYLIST_PAGE_SIZE = 100;
+const ALBUM_PAGE_SIZE = 50;
+
+// Métodos get* del cliente que no llaman a la API
+const LOCAL_GETTERS = new Set([
+  'getAccessToken',
+  'getRefreshToken',
+  'getClientId',
+  'getClientSecret',
+  'getRedirectURI',
+  'getCredentials',
+]);
+
+// Cliente cuyas lecturas (get*, search*) pasan por la capa de upstream: timeout, reintentos,
+// Retry-After y circuit breaker. Las rutas solo leen, así que no hay escrituras que envolver.
+function resilientClient(token: string): SpotifyWebApi {
+  const spotifyApi = new SpotifyWebApi();
+  spotifyApi.setAccessToken(token);
+  return new Proxy(spotifyApi, {
+    get(target, prop, receiver) {
+      const value: unknown = Reflect.get(target, prop, receiver);
+      if (typeof value !== 'function' || typeof prop !== 'string') return value;
+      if (!/^(get|search)/.test(prop) || LOCAL_GETTERS.has(prop)) return value.bind(target);
+      return (...args: unknown[]) => callUpstream('spotify', () => value.apply(target, args), { idempotent: true });
+    },
+  });
+}
+
+// Token de aplicación (client credentials) compartido, renovado al caducar
+let appToken: { value: string; expiresAt: number } | null = null;
+
+// Token del usuario: cabecera Bearer (scripts) o cookie de sesión (navegador)
+async function getUserToken(request: NextRequest): Promise<string | null> {
+  const auth = request.headers.get('Authorization');
+  if (auth?.startsWith('Bearer ')) return auth.split(' ')[1];
+  const session = await getSession();
+  return session?.accessToken ?? null;
+}
+
+export function hasAppCredentials(): boolean {
+  return !!process.env.SPOTIFY_CLIENT_SECRET && !!getClientIdOrNull();
+}
+
+function getClientIdOrNull(): string | null {
+  return process.env.SPOTIFY_CLIENT_ID || process.env.NEXT_PUBLIC_SPOTIFY_CLIENT_ID || null;
+}
+
+async function getAppToken(): Promise<string> {
+  if (appToken && appToken.expiresAt - 60_000 > Date.now()) return appToken.value;
+  const client = new SpotifyWebApi({
+    clientId: getClientIdOrNull() ?? undefined,
+    clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
+  });
+  const res = await callUpstream('spotify', () => client.clientCredentialsGrant(), { idempotent: true });
+  appToken = {
+    value: res.body.access_token,
+    expiresAt: Date.now() + res.body.expires_in * 1000,
+  };
+  return appToken.value;
+}
+
+// Cliente con el token del usuario; sin sesión, 401
+export async function spotifyClientFromRequest(request: NextRequest): Promise<SpotifyWebApi> {
+  const token = await getUserToken(request);
+  if (!token) throw new ApiError('unauthorized', 'Not logged in to Spotify.');
+  return resilientClient(token);
+}
+
+// Modo anónimo: token del usuario si lo hay, si no el de aplicación; null si Spotify no está configurado
+export async function optionalSpotifyClient(request: NextRequest): Promise<SpotifyWebApi | null> {
+  const token = (await getUserToken(request)) ?? (hasAppCredentials() ? await getAppToken() : null);
+  if (!token) return null;
+  return resilientClient(token);
+}
+
+// Metadatos de un enlace compartido (componentes de servidor): solo token de aplicación,
+// los rastreadores de previsualización no traen cookie; null si Spotify no está configurado
+export async function getTrackPreview(id: string): Promise<SearchResult | null> {
+  if (!hasAppCredentials()) return null;
+  const spotifyApi = resilientClient(await getAppToken());
+  const res = await spotifyApi.getTrack(id);
+  return toSearchResult(res.body);
+}
+
+export function toSearchResult(t: SpotifyApi.TrackObjectFull): SearchResult {
+  return toAlbumTrackResult(t, t.album);
+}
+
+// Las pistas de un álbum vienen sin él: se completan con los datos del propio álbum
+function toAlbumTrackResult(t: SpotifyApi.TrackObjectSimplified, album: SpotifyApi.AlbumObjectSimplified): SearchResult {
+  return {
+    id: t.id,
+    title: t.name,
+    artist: t.artists.map((a) => a.name).join(', '),
+    album: album.name,
+    duration: t.duration_ms,
+    thumbnailUrl: album.images?.[album.images.length - 1]?.url,
+    coverUrl: album.images?.[0]?.url,
+    previewUrl: t.preview_url ?? undefined,
+    explicit: t.explicit,
+  };
+}
+
+export function toPlaylistSummary(p: SpotifyApi.PlaylistObjectSimplified): PlaylistSummary {
+  return {
+    id: p.id,
+    name: p.name,
+    owner: p.owner.display_name ?? p.owner.id,
+    trackCount: p.tracks.total,
+    // Las imágenes vienen de mayor a menor
+    imageUrl: p.images?.[p.images.length - 1]?.url,
+  };
+}
+
+// Pistas de una playlist o un álbum completos para la búsqueda por lotes, hasta `max`
+export interface TrackCollection {
+  name: string;
+  tracks: SearchResult[];
+  // Había más pistas que `max`
+  truncated: boolean;
+}
+
+// Como en la biblioteca, se omiten episodios, pistas locales y pistas eliminadas
+export async function getPlaylistCollection(spotifyApi: SpotifyWebApi, id: string, max: number): Promise<TrackCollection> {
+  const { body: playlist } = await spotifyApi.getPlaylist(id, { fields: 'name' });
+  const tracks: SearchResult[] = [];
+  let total = 0;
+  for (let offset = 0; offset < max; offset += PLAYLIST_PAGE_SIZE) {
+    const res = await spotifyApi.getPlaylistTracks(id, { limit: PLAYLIST_PAGE_SIZE, offset });
+    total = res.body.total;
+    for (const item of res.body.items) {
+      if (item.track && !item.is_local && item.track.type === 'track') tracks.push(toSearchResult(item.track));
+    }
+    if (offset + PLAYLIST_PAGE_SIZE >= total) break;
+  }
+  return { name: playlist.name, tracks: tracks.slice(0, max), truncated: total > max };
+}
+
+export async function getAlbumCollection(spotifyApi: SpotifyWebApi, id: string, max: number): Promise<TrackCollection> {
+  const { body: album } = await spotifyApi.getAlbum(id);
+  const items = [...album.tracks.items];
+  while (items.length < album.tracks.total && items.length < max) {
+    const res = await spotifyApi.getAlbumTracks(id, { limit: ALBUM_PAGE_SIZE, offset: items.length });
+    if (!res.body.items.length) break;
+    items.push(...res.body.items);
+  }
+  return {
+    name: album.name,
+    tracks: items.slice(0, max).map((t) => toAlbumTrackResult(t, album)),
+    truncated: album.tracks.total > max,
+  };
+}
@@ -0,0 +1,47 @@
+// src/lib/textSearch.ts
+
+// Búsqueda en texto sin distinguir mayúsculas ni acentos, con las posiciones sobre el texto
+// original para poder resaltar lo encontrado.
+
+export type TextRange = [start: number, end: number];
+
+// Texto plegado y, para cada carácter plegado, su posición en el original
+function fold(text: string): { folded: string; origin: number[] } {
+  let folded = '';
+  const origin: number[] = [];
+  let position = 0;
+  for (const char of text) {
+    const plain = char.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    for (let i = 0; i < plain.length; i++) origin.push(position);
+    folded += plain;
+    position += char.length;
+  }
+  origin.push(position);
+  return { folded, origin };
+}
+
+// Rangos ordenados y sin solapes donde aparece alguno de los términos
+export function findRanges(text: string, terms: string[]): TextRange[] {
+  const { folded, origin } = fold(text);
+  const ranges: TextRange[] = [];
+  for (const term of terms) {
+    const needle = fold(term.trim()).folded;
+    if (!needle) continue;
+    for (let at = folded.indexOf(needle); at >= 0; at = folded.indexOf(needle, at + needle.length)) {
+      ranges.push([origin[at], origin[at + needle.length]]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: TextRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  }
+  return merged;
+}
+
+// Términos para resaltar un fragmento buscado: la frase entera y sus palabras con sustancia
+export function snippetTerms(query: string): string[] {
+  return [query, ...query.split(/\s+/).filter((word) => word.length >= 3)];
+}
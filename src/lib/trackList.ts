@@ -0,0 +1,126 @@
+// src/lib/trackList.ts
+
+// Listas de pistas subidas para la búsqueda por lotes: CSV con cabecera (p. ej. de Exportify)
+// o JSON (array de pistas o { tracks: [...] }). Lanza ApiError 'invalid_request' si no se entiende.
+
+import { ApiError } from '@/lib/api/errors';
+import type { BatchTrackInput } from '@/lib/api/types';
+import { parseDuration } from '@/lib/lrc';
+
+// Tamaño máximo de un lote (listas subidas; las playlists y álbumes se recortan)
+export const MAX_BATCH_TRACKS = 500;
+
+// Nombres de columna/campo aceptados, ya normalizados (minúsculas, sin espacios ni signos)
+const FIELD_ALIASES: Record<keyof BatchTrackInput, string[]> = {
+  trackName: ['trackname', 'track', 'title', 'name', 'song'],
+  artistName: ['artistname', 'artistnames', 'artist', 'artists'],
+  albumName: ['albumname', 'album'],
+  duration: ['durationms', 'trackdurationms', 'duration'],
+};
+
+function normalizeField(name: string): string {
+  return name.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+// Milisegundos como número, "215000" o "3:35"
+function toDuration(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? Math.round(value) : undefined;
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const raw = value.trim();
+  if (/^\d+$/.test(raw)) return parseInt(raw, 10) || undefined;
+  return parseDuration(raw);
+}
+
+function toTrack(get: (field: keyof BatchTrackInput) => unknown, row: number): BatchTrackInput | null {
+  const text = (field: keyof BatchTrackInput) => {
+    const value = get(field);
+    return typeof value === 'string' ? value.trim() : '';
+  };
+  const trackName = text('trackName');
+  const artistName = text('artistName');
+  // Filas vacías (p. ej. al final del archivo)
+  if (!trackName && !artistName) return null;
+  if (!trackName || !artistName) {
+    throw new ApiError('invalid_request', `Row ${row} needs both a track name and an artist.`);
+  }
+  return {
+    trackName,
+    artistName,
+    albumName: text('albumName') || undefined,
+    duration: toDuration(get('duration')),
+  };
+}
+
+// RFC 4180: comillas dobles, comillas escapadas ("") y saltos de línea dentro de un campo.
+// El separador (coma, punto y coma o tabulador) se deduce de la cabecera.
+function parseCsvRows(text: string): string[][] {
+  const headerLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    headerLine.split(d).length > headerLine.split(best).length ? d : best
+  );
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows;
+}
+
+export function parseTrackListCsv(text: string): BatchTrackInput[] {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const columns = (header ?? []).map(normalizeField);
+  const column = (field: keyof BatchTrackInput) => columns.findIndex((c) => FIELD_ALIASES[field].includes(c));
+  const indices = {
+    trackName: column('trackName'),
+    artistName: column('artistName'),
+    albumName: column('albumName'),
+    duration: column('duration'),
+  };
+  if (indices.trackName < 0 || indices.artistName < 0) {
+    throw new ApiError('invalid_request', 'The CSV needs a header row with track name and artist columns.');
+  }
+  // Fila 1 = cabecera
+  return rows.flatMap((cells, i) => toTrack((field) => cells[indices[field]], i + 2) ?? []);
+}
+
+export function parseTrackListJson(value: unknown): BatchTrackInput[] {
+  const list = Array.isArray(value)
+    ? value
+    : typeof value === 'object' && value !== null && Array.isArray((value as { tracks?: unknown }).tracks)
+      ? (value as { tracks: unknown[] }).tracks
+      : null;
+  if (!list) throw new ApiError('invalid_request', 'The JSON must be an array of tracks or an object with a `tracks` array.');
+  return list.flatMap((item, i) => {
+    const entries = typeof item === 'object' && item !== null ? Object.entries(item) : [];
+    const fields = new Map(entries.map(([key, v]) => [normalizeField(key), v]));
+    const get = (field: keyof BatchTrackInput) =>
+      FIELD_ALIASES[field].map((alias) => fields.get(alias)).find((v) => v !== undefined);
+    return toTrack(get, i + 1) ?? [];
+  });
+}
@@ -0,0 +1,37 @@
+// src/lib/translation.ts
+
+import { ApiError } from '@/lib/api/errors';
+import type { TranslationRequest, TranslationResponse } from '@/lib/api/types';
+import { getLyrics } from '@/lib/lyrics';
+import { ROMANIZED_TARGET } from '@/lib/romanize';
+import { lyricsDisplayLines } from '@/lib/selection';
+import { getConfiguredTranslators, type TranslationResult } from '@/lib/translators';
+
+// Texto paralelo de una letra. La letra sale de getLyrics (con su caché) y las líneas devueltas
+// se alinean con las que muestra la app, así el cliente las empareja por índice.
+export async function getTranslation(req: TranslationRequest): Promise<TranslationResponse> {
+  const { body } = await getLyrics(req);
+  const lines = lyricsDisplayLines(body);
+  if (!lines) throw new ApiError('not_found', body.message ?? 'No lyrics found.');
+
+  const kind = req.target === ROMANIZED_TARGET ? 'romanization' : 'translation';
+  const meta = { trackName: req.trackName, artistName: req.artistName, albumName: req.albumName };
+  let firstError: unknown = null;
+  for (const translator of getConfiguredTranslators(kind)) {
+    let result: TranslationResult | null;
+    try {
+      result = await translator.translate(lines, { target: req.target, meta });
+    } catch (err: unknown) {
+      console.error(`Translation provider "${translator.id}" failed:`, err);
+      firstError ??= err;
+      continue;
+    }
+    if (result) return { target: req.target, kind, ...result };
+  }
+
+  if (firstError) throw firstError;
+  throw new ApiError(
+    'not_found',
+    kind === 'romanization' ? 'Nothing to romanize in these lyrics.' : `No ${req.target} translation available.`
+  );
+}
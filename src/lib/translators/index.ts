@@ -0,0 +1,33 @@
+// src/lib/translators/index.ts
+
+import { createLocalTranslator } from '@/lib/translators/local';
+import { romanizeTranslator } from '@/lib/translators/romanize';
+import type { Translator, TranslatorKind } from '@/lib/translators/types';
+
+export type { TranslationResult, Translator, TranslatorKind } from '@/lib/translators/types';
+
+// Orden de consulta configurable con TRANSLATION_PROVIDERS="local,romanize".
+// La romanización integrada siempre está disponible; los traductores, solo si están configurados.
+export function getConfiguredTranslators(kind: TranslatorKind): Translator[] {
+  const localDir = process.env.TRANSLATION_LOCAL_DIR;
+  const available: Record<string, Translator | undefined> = {
+    romanize: romanizeTranslator,
+    local: localDir ? createLocalTranslator(localDir) : undefined,
+  };
+
+  const order = (process.env.TRANSLATION_PROVIDERS ?? (localDir ? 'local,romanize' : 'romanize'))
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  const translators: Translator[] = [];
+  for (const id of order) {
+    const translator = available[id];
+    if (!translator) {
+      console.warn(`Unknown or unconfigured translation provider "${id}", skipping.`);
+      continue;
+    }
+    if (translator.kind === kind && !translators.includes(translator)) translators.push(translator);
+  }
+  return translators;
+}
@@ -0,0 +1,51 @@
+// src/lib/translators/local.ts
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { MIN_CONFIDENCE, scoreMatch, type TrackMeta } from '@/lib/match';
+import type { Translator } from '@/lib/translators/types';
+
+// "Artist - Title.en.txt": una línea traducida por línea de la letra (también las vacías)
+const FILE_RE = /^(.*)\.([a-z]{2,3}(?:-[a-z]{2})?)\.txt$/i;
+
+// Traducciones en un directorio local (TRANSLATION_LOCAL_DIR). Sirve de sustituto de un
+// servicio de traducción real para desarrollo y pruebas.
+export function createLocalTranslator(dir: string): Translator {
+  return {
+    id: 'local',
+    name: 'Local translations',
+    kind: 'translation',
+
+    async translate(lines, { target, meta }) {
+      let entries: string[];
+      try {
+        entries = await fs.readdir(dir);
+      } catch (err: unknown) {
+        console.warn(`Local translations directory not readable (${dir}):`, err);
+        return null;
+      }
+
+      let best: { file: string; confidence: number } | null = null;
+      for (const file of entries.sort()) {
+        const match = FILE_RE.exec(file);
+        if (!match || match[2].toLowerCase() !== target.toLowerCase()) continue;
+        const dash = match[1].indexOf(' - ');
+        // Sin artista en el nombre, solo puntúa el título
+        const candidate: TrackMeta =
+          dash >= 0
+            ? { artistName: match[1].slice(0, dash), trackName: match[1].slice(dash + 3) }
+            : { artistName: meta.artistName, trackName: match[1] };
+        const confidence = scoreMatch({ trackName: meta.trackName, artistName: meta.artistName }, candidate);
+        if (!best || confidence > best.confidence) best = { file, confidence };
+      }
+      if (!best || best.confidence < MIN_CONFIDENCE) return null;
+
+      const translated = (await fs.readFile(path.join(dir, best.file), 'utf8')).replace(/\r/g, '').split('\n');
+      return {
+        source: 'local',
+        attribution: 'local translations',
+        lines: lines.map((line, i) => (line.trim() && translated[i]?.trim() ? translated[i] : null)),
+      };
+    },
+  };
+}
@@ -0,0 +1,17 @@
+// src/lib/translators/romanize.ts
+
+import { needsRomanization, romanize } from '@/lib/romanize';
+import type { Translator } from '@/lib/translators/types';
+
+// Romanización integrada: no necesita configuración ni servicios externos
+export const romanizeTranslator: Translator = {
+  id: 'romanize',
+  name: 'Built-in romanization',
+  kind: 'romanization',
+
+  async translate(lines) {
+    const out = lines.map((line) => (needsRomanization(line) ? romanize(line) : null));
+    if (out.every((line) => line === null)) return null;
+    return { source: 'romanize', attribution: 'built-in romanization', lines: out };
+  },
+};
@@ -0,0 +1,28 @@
+// src/lib/translators/types.ts
+
+import type { TrackMeta } from '@/lib/match';
+
+// 'translation' traduce a un idioma; 'romanization' translitera la misma letra al alfabeto latino
+export type TranslatorKind = 'translation' | 'romanization';
+
+export interface TranslateOptions {
+  // Código de idioma (p. ej. "en", "pt-BR"); las romanizaciones lo ignoran
+  target: string;
+  meta: TrackMeta;
+}
+
+export interface TranslationResult {
+  source: string;
+  // Texto de crédito, p. ej. "local translations"
+  attribution: string;
+  // Alineadas con las líneas de entrada; null = sin texto paralelo para esa línea
+  lines: (string | null)[];
+}
+
+export interface Translator {
+  id: string;
+  name: string;
+  kind: TranslatorKind;
+  // null = el traductor no tiene nada para esta letra
+  translate(lines: string[], options: TranslateOptions): Promise<TranslationResult | null>;
+}
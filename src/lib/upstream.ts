@@ -0,0 +1,260 @@
+// src/lib/upstream.ts
+
+// Capa común para las llamadas a servicios externos (LRCLIB y Spotify): timeout por llamada,
+// reintentos con espera exponencial y jitter en fallos transitorios de llamadas idempotentes,
+// respeto de Retry-After, un circuit breaker por servicio que falla en el acto mientras
+// el servicio está caído, en lugar de dejar cada petición esperando su timeout, y un límite
+// de ritmo común a todo el proceso para los servicios que lo piden.
+
+import axios from 'axios';
+
+export type UpstreamName = 'spotify' | 'lrclib';
+
+export const upstreamNames: Record<UpstreamName, string> = { spotify: 'Spotify', lrclib: 'LRCLIB' };
+
+// Identidad de la app ante los servicios (LRCLIB pide nombre, versión y web del cliente)
+export const APP_USER_AGENT =
+  process.env.APP_USER_AGENT ||
+  `LyricFinder/0.1${process.env.NEXT_PUBLIC_SITE_URL ? ` (+${process.env.NEXT_PUBLIC_SITE_URL})` : ''}`;
+
+const DEFAULT_TIMEOUT_MS: Record<UpstreamName, number> = { spotify: 8_000, lrclib: 10_000 };
+// Intentos en total para las llamadas idempotentes; un timeout se repite solo una vez,
+// para que una petición del cliente no espere tres timeouts seguidos
+const MAX_ATTEMPTS = 3;
+const MAX_TIMEOUT_ATTEMPTS = 2;
+const BACKOFF_BASE_MS = 300;
+// Un Retry-After más largo no se espera: se corta el servicio hasta entonces y se avisa al cliente
+const MAX_RETRY_WAIT_MS = 5_000;
+// Llamadas seguidas fallidas (ya reintentadas) que abren el circuito, y cuánto queda abierto
+const FAILURE_THRESHOLD = 5;
+const OPEN_MS = 30_000;
+
+interface RateLimit {
+  concurrency: number;
+  // Separación mínima entre el inicio de dos llamadas
+  intervalMs: number;
+}
+
+// LRCLIB es un servicio comunitario: como mucho 3 llamadas a la vez y ~4 por segundo entre
+// búsquedas, lotes y comprobaciones de disponibilidad juntas
+const RATE_LIMITS: Partial<Record<UpstreamName, RateLimit>> = {
+  lrclib: { concurrency: 3, intervalMs: 250 },
+};
+
+export interface UpstreamCallOptions {
+  // Se puede repetir sin efectos secundarios; si no, un fallo no se reintenta
+  idempotent: boolean;
+  timeoutMs?: number;
+}
+
+// timeout/network/http: falló tras los reintentos; unavailable: circuito abierto o límite de peticiones
+export type UpstreamFailure = 'timeout' | 'network' | 'http' | 'unavailable';
+
+export class UpstreamError extends Error {
+  constructor(
+    public upstream: UpstreamName,
+    public failure: UpstreamFailure,
+    message: string,
+    public status?: number,
+    // Cuándo tiene sentido volver a intentarlo
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+}
+
+interface Circuit {
+  failures: number;
+  openUntil: number;
+  // 429 si se abrió por un Retry-After, para explicarlo igual mientras siga abierto
+  openStatus?: number;
+}
+
+const circuits: Record<UpstreamName, Circuit> = {
+  spotify: { failures: 0, openUntil: 0 },
+  lrclib: { failures: 0, openUntil: 0 },
+};
+
+// Tiempo que le queda abierto al circuito; null si está cerrado
+function openRemainingMs(upstream: UpstreamName): number | null {
+  const remaining = circuits[upstream].openUntil - Date.now();
+  return remaining > 0 ? remaining : null;
+}
+
+function openCircuit(upstream: UpstreamName, ms: number, status?: number) {
+  const circuit = circuits[upstream];
+  if (Date.now() + ms <= circuit.openUntil) return;
+  circuit.openUntil = Date.now() + ms;
+  circuit.openStatus = status;
+}
+
+// Tras OPEN_MS el circuito deja pasar llamadas otra vez ("medio abierto"): con el contador aún
+// por encima del umbral, un solo fallo más lo vuelve a abrir y un éxito lo cierra del todo
+function recordFailure(upstream: UpstreamName) {
+  const circuit = circuits[upstream];
+  circuit.failures++;
+  if (circuit.failures >= FAILURE_THRESHOLD) openCircuit(upstream, OPEN_MS);
+}
+
+function recordSuccess(upstream: UpstreamName) {
+  circuits[upstream].failures = 0;
+}
+
+interface Limiter {
+  active: number;
+  nextSlot: number;
+  // Llamadas esperando hueco, en orden de llegada
+  queue: (() => void)[];
+}
+
+const limiters: Partial<Record<UpstreamName, Limiter>> = {};
+
+// Espera un hueco libre y su turno en el ritmo; devuelve la función que lo libera
+async function acquireSlot(upstream: UpstreamName): Promise<() => void> {
+  const limit = RATE_LIMITS[upstream];
+  if (!limit) return () => {};
+  const limiter = (limiters[upstream] ??= { active: 0, nextSlot: 0, queue: [] });
+  if (limiter.active < limit.concurrency) limiter.active++;
+  else await new Promise<void>((resolve) => limiter.queue.push(resolve));
+
+  const now = Date.now();
+  const slot = Math.max(now, limiter.nextSlot);
+  limiter.nextSlot = slot + limit.intervalMs;
+  if (slot > now) await sleep(slot - now);
+  // El hueco pasa directamente a la siguiente llamada en cola
+  return () => {
+    const next = limiter.queue.shift();
+    if (next) next();
+    else limiter.active--;
+  };
+}
+
+interface TransientFailure {
+  failure: Exclude<UpstreamFailure, 'unavailable'>;
+  status?: number;
+  retryAfterMs?: number;
+}
+
+// "120" (segundos) o una fecha HTTP
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Fallos que merece la pena reintentar: timeouts, errores de red, 429 y 5xx.
+// null = el servicio respondió (p. ej. 404): el error es del caller y se propaga tal cual.
+function transientFailure(err: unknown): TransientFailure | null {
+  if (err instanceof UpstreamError) return err.failure === 'unavailable' ? null : { failure: err.failure };
+  let status: number | undefined;
+  let headers: Record<string, unknown> | undefined;
+  if (axios.isAxiosError(err)) {
+    if (!err.response) return { failure: err.code === 'ECONNABORTED' || err.code === 'ETIMEDOUT' ? 'timeout' : 'network' };
+    status = err.response.status;
+    headers = err.response.headers as Record<string, unknown>;
+  } else if (typeof err === 'object' && err !== null && 'statusCode' in err) {
+    // WebapiError de spotify-web-api-node
+    status = (err as { statusCode?: number }).statusCode;
+    headers = (err as { headers?: Record<string, unknown> }).headers;
+  } else if (err instanceof Error && err.name === 'TimeoutError') {
+    return { failure: 'timeout' };
+  } else {
+    // Errores de socket de superagent (ECONNRESET, ENOTFOUND…)
+    const code = (err as { code?: unknown } | null)?.code;
+    return typeof code === 'string' && /^E[A-Z]+$/.test(code) ? { failure: 'network' } : null;
+  }
+  if (status === undefined || (status !== 429 && status < 500)) return null;
+  return { failure: 'http', status, retryAfterMs: parseRetryAfter(headers?.['retry-after']) };
+}
+
+// Espera exponencial con "full jitter"
+function backoffMs(attempt: number): number {
+  return Math.random() * BACKOFF_BASE_MS * 2 ** attempt;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function withTimeout<T>(
+  upstream: UpstreamName,
+  fn: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(
+        new UpstreamError(upstream, 'timeout', `${upstreamNames[upstream]} did not respond within ${timeoutMs / 1000} s.`)
+      );
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([fn(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function unavailableError(upstream: UpstreamName, retryAfterMs: number, status?: number): UpstreamError {
+  const name = upstreamNames[upstream];
+  const reason = status === 429 ? `${name} is rate limiting requests` : `${name} is temporarily unavailable`;
+  return new UpstreamError(
+    upstream,
+    'unavailable',
+    `${reason}. Try again in ${Math.ceil(retryAfterMs / 1000)} s.`,
+    status,
+    retryAfterMs
+  );
+}
+
+function finalError(upstream: UpstreamName, err: unknown, info: TransientFailure): UpstreamError {
+  if (err instanceof UpstreamError) return err;
+  const name = upstreamNames[upstream];
+  if (info.failure === 'timeout') return new UpstreamError(upstream, 'timeout', `${name} did not respond in time.`);
+  if (info.failure === 'network') return new UpstreamError(upstream, 'network', `Could not reach ${name}.`);
+  if (info.status === 429) return unavailableError(upstream, info.retryAfterMs ?? OPEN_MS, 429);
+  return new UpstreamError(upstream, 'http', `${name} request failed (HTTP ${info.status}).`, info.status);
+}
+
+// Ejecuta una llamada a un servicio externo. `fn` recibe una señal que se aborta al vencer
+// el timeout (axios la admite; spotify-web-api-node no, y su petición se abandona sin más).
+export async function callUpstream<T>(
+  upstream: UpstreamName,
+  fn: (signal: AbortSignal) => Promise<T>,
+  { idempotent, timeoutMs = DEFAULT_TIMEOUT_MS[upstream] }: UpstreamCallOptions
+): Promise<T> {
+  const attempts = idempotent ? MAX_ATTEMPTS : 1;
+  for (let attempt = 1; ; attempt++) {
+    const openFor = openRemainingMs(upstream);
+    if (openFor !== null) throw unavailableError(upstream, openFor, circuits[upstream].openStatus);
+    // El timeout cuenta desde que la llamada sale, no desde que entra en la cola
+    const release = await acquireSlot(upstream);
+    try {
+      const result = await withTimeout(upstream, fn, timeoutMs).finally(release);
+      recordSuccess(upstream);
+      return result;
+    } catch (err: unknown) {
+      const info = transientFailure(err);
+      if (!info) {
+        recordSuccess(upstream);
+        throw err;
+      }
+      if (info.retryAfterMs !== undefined && info.retryAfterMs > MAX_RETRY_WAIT_MS) {
+        openCircuit(upstream, info.retryAfterMs, info.status);
+        throw unavailableError(upstream, info.retryAfterMs, info.status);
+      }
+      const maxAttempts = info.failure === 'timeout' ? Math.min(attempts, MAX_TIMEOUT_ATTEMPTS) : attempts;
+      if (attempt >= maxAttempts) {
+        recordFailure(upstream);
+        throw finalError(upstream, err, info);
+      }
+      await sleep(info.retryAfterMs ?? backoffMs(attempt));
+    }
+  }
+}